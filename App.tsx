@@ -1,13 +1,108 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { analyzeImage } from './services/geminiService';
-import type { DetectionEvent } from './types';
-import { Camera, AlertTriangle, CheckCircle, Power, Loader, Clipboard, Video, XCircle } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { getImageAnalyzer, DEFAULT_ANALYZER_SETTINGS } from './services/imageAnalyzer';
+import { createAnalysisQueue, DEFAULT_ANALYSIS_QUEUE_SETTINGS } from './services/analysisQueue';
+import type { AnalysisQueue, AnalysisQueueState } from './services/analysisQueue';
+import { loadUsage } from './services/analysisUsage';
+import { getActiveWatchlist, getRecognition } from './services/watchlist';
+import { evaluateRules } from './services/alertRules';
+import { runAlertActions, showNotification, requestNotificationPermission } from './services/alertActions';
+import { watchOutbox } from './services/outbox';
+import { saveEvent, updateEvent, attachClip, loadEvents, enforceRetention, blobToDataUrl, revokeEventUrls } from './services/eventStore';
+import { EMPTY_FILTER, filterEvents } from './services/eventFilters';
+import { loadSetting, saveSetting } from './services/settings';
+import { loadZones, saveZones, buildZoneMask } from './services/motionZones';
+import { createMotionEngine, isMotionEngineSupported } from './services/motionEngine';
+import type { MotionEngine, MotionHeatmap } from './services/motionEngine';
+import { createClipRecorder, isClipRecordingSupported, clipExtension, AUDIO_MIME_TYPES } from './services/clipRecorder';
+import type { ClipRecorder } from './services/clipRecorder';
+import { createAudioDetector, isAudioDetectionSupported } from './services/audioDetector';
+import type { AudioDetector, AudioTrigger } from './services/audioDetector';
+import { classifySound, SOUND_CATEGORY_LABELS } from './services/soundClassifier';
+import type { SoundMatch } from './services/soundClassifier';
+import EventLogControls from './components/EventLogControls';
+import ZoneEditor from './components/ZoneEditor';
+import MotionSettingsPanel from './components/MotionSettingsPanel';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import MotionHeatmapOverlay from './components/MotionHeatmapOverlay';
+import ClipSettingsPanel from './components/ClipSettingsPanel';
+import AnalyzerSettingsPanel from './components/AnalyzerSettingsPanel';
+import AnalysisQueuePanel from './components/AnalysisQueuePanel';
+import WatchlistPanel from './components/WatchlistPanel';
+import AlertRulesPanel from './components/AlertRulesPanel';
+import Dashboard from './components/Dashboard';
+import AccessPanel from './components/AccessPanel';
+import RemoteEventFeed from './components/RemoteEventFeed';
+import NetworkSettingsPanel from './components/NetworkSettingsPanel';
+import ArmingProfilesPanel from './components/ArmingProfilesPanel';
+import EventArchiveBar from './components/EventArchiveBar';
+import EventAssistant from './components/EventAssistant';
+import CameraSettingsPanel from './components/CameraSettingsPanel';
+import StreamStatsOverlay from './components/StreamStatsOverlay';
+import UpdateBanner from './components/UpdateBanner';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { createPeer, loadNetworkSettings, decodeNetworkParam, DEFAULT_NETWORK_SETTINGS } from './services/peerConfig';
+import { createBackoff, keepPeerRegistered, isBrokerError } from './services/reconnect';
+import { watchStreamStats } from './services/streamStats';
+import type { StreamStats } from './services/streamStats';
+import { createDefaultArmingSettings, getProfile, getScheduledProfileId, getNextScheduledChange, pickProfileMotion, DAY_LABELS } from './services/armingProfiles';
+import { DEFAULT_CAMERA_SETTINGS, buildConstraints, openCameraStream, getTrackControls, applyTrackControls, listDevices } from './services/cameraDevices';
+import type { TrackControls } from './services/cameraDevices';
+import { createAccessGate } from './services/accessGate';
+import type { AccessGate } from './services/accessGate';
+import { generateSecret, isInviteActive } from './services/inviteTokens';
+import { serializeEvent, createThumbnail } from './services/eventSerialization';
+import { THREAT_LEVEL_LABELS, THREAT_LEVEL_STYLES, OBJECT_CLASS_LABELS } from './components/analysisLabels';
+import type { DetectionEvent, EventFilter, RetentionPolicy, MotionZone, MotionSettings, ClipSettings, AnalyzerSettings, AlertRule, AccessSettings, ConnectedViewer, NetworkSettings, ArmingSettings, ArmingProfile, CameraSettings, AudioSettings, AnalysisQueueSettings, AnalysisUsageDay, WatchlistEntry } from './types';
+import { Camera, AlertTriangle, CheckCircle, Power, Loader, Video, XCircle, Crop, SlidersHorizontal, Download, LayoutGrid, KeyRound, SwitchCamera, Activity, Bell, WifiOff, CalendarClock, Volume2, VolumeX, AudioLines, RefreshCw, UserCheck, UserX } from 'lucide-react';
 import type Peer from 'peerjs';
-import type { MediaConnection } from 'peerjs';
+import type { MediaConnection, DataConnection } from 'peerjs';
+import { authenticate, sendMessage, AccessDeniedError } from './services/peerProtocol';
+import type { ViewerCredentials, CameraMessage, CameraState, ViewerMessage, RemoteEvent } from './services/peerProtocol';
 
-const MOTION_SENSITIVITY = 50; // Lower is more sensitive
-const COOLDOWN_SECONDS = 10;
+const DEFAULT_MOTION_SETTINGS: MotionSettings = { sensitivity: 50, minAreaPercent: 2, cooldownSeconds: 10, fps: 5, showHeatmap: false };
+const DETECTION_WIDTH = 320;
+const DETECTION_HEIGHT = 240;
+const DEFAULT_CLIP_SETTINGS: ClipSettings = { enabled: true, preRollSeconds: 5, postRollSeconds: 5 };
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    enabled: false,
+    mode: 'rms',
+    thresholdDb: -30,
+    minDurationMs: 300,
+    cooldownSeconds: 10,
+    recordClip: true,
+    clipSeconds: 5,
+    classifierEnabled: false,
+    classifierMinScore: 0.3,
+    categories: ['scream', 'glass', 'alarm', 'gunshot', 'knock'],
+};
+const AUDIO_PRE_ROLL_SECONDS = 3;
+const AUDIO_LEVEL_UPDATE_MS = 150;
+const BATCH_FRAME_INTERVAL_MS = 1000;
+const RULES_ANALYSIS_TIMEOUT_MS = 10000; // how long the alert rules wait for the analysis
+const HIGHLIGHT_MS = 4000;
+const MAX_RETRIED_ANALYSES = 10;
+const REMOTE_HISTORY_SIZE = 20;
+const SCHEDULE_CHECK_INTERVAL_MS = 15000;
+const REMOTE_FEED_SIZE = 50;
+const CALL_TIMEOUT_MS = 15000;
+const OFFLINE_ALERT_OPTIONS: { label: string; seconds: number }[] = [
+    { label: 'Desativado', seconds: 0 },
+    { label: '30 segundos', seconds: 30 },
+    { label: '1 minuto', seconds: 60 },
+    { label: '5 minutos', seconds: 300 },
+    { label: '15 minutos', seconds: 900 },
+];
+const DEFAULT_RETENTION: RetentionPolicy = { maxDays: 30, maxMegabytes: 200 };
+
+function captureFrame(video: HTMLVideoElement): Promise<Blob | null> {
+    if (video.readyState < video.HAVE_CURRENT_DATA) return Promise.resolve(null);
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+}
 
 // Helper component: StatusDisplay
 interface StatusDisplayProps {
@@ -26,6 +121,10 @@ const StatusDisplay: React.FC<StatusDisplayProps> = ({ status }) => {
             Icon = AlertTriangle;
             textColor = 'text-yellow-400';
             break;
+        case 'Som Detectado!':
+            Icon = AudioLines;
+            textColor = 'text-yellow-400';
+            break;
         case 'Analisando Imagem...':
             Icon = Loader;
             textColor = 'text-blue-400';
@@ -45,18 +144,58 @@ const StatusDisplay: React.FC<StatusDisplayProps> = ({ status }) => {
     );
 };
 
+// Helper component: ProfileBadge
+interface ProfileBadgeProps {
+    profile: ArmingProfile;
+    nextChange: { at: Date; profile: ArmingProfile } | null;
+}
+const ProfileBadge: React.FC<ProfileBadgeProps> = ({ profile, nextChange }) => {
+    const formatChange = (at: Date) => {
+        const time = at.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+        return at.toDateString() === new Date().toDateString() ? time : `${DAY_LABELS[at.getDay()]} ${time}`;
+    };
+
+    return (
+        <div className="flex flex-col items-end px-2 py-1 rounded-lg bg-gray-800/50 backdrop-blur-sm text-xs text-gray-200">
+            <span className="flex items-center gap-1 font-semibold"><CalendarClock className="w-3 h-3" />Perfil: {profile.name}</span>
+            {nextChange && <span className="text-gray-400">{nextChange.profile.name} às {formatChange(nextChange.at)}</span>}
+        </div>
+    );
+};
+
 
 // Helper component: EventCard
 interface EventCardProps {
     event: DetectionEvent;
+    isSelected?: boolean;
+    onToggleSelect?: () => void; // shows a selection checkbox when set
+    onReanalyze?: () => void;
+    isHighlighted?: boolean;
 }
-const EventCard: React.FC<EventCardProps> = ({ event }) => {
+const EventCard: React.FC<EventCardProps> = ({ event, isSelected, onToggleSelect, onReanalyze, isHighlighted }) => {
+    const threatStyle = event.threatLevel ? THREAT_LEVEL_STYLES[event.threatLevel] : null;
+    const ring = isHighlighted ? 'ring-4 ring-yellow-400' : isSelected ? 'ring-2 ring-blue-500' : event.threatLevel === 'high' ? 'ring-2 ring-red-500' : '';
     return (
-        <div className="bg-gray-800 rounded-lg overflow-hidden shadow-lg animate-fade-in">
-            <img src={event.imageDataUrl} alt="Captura de evento de segurança" className="w-full h-auto object-cover" />
+        <div id={`evento-${event.id}`} className={`relative bg-gray-800 rounded-lg overflow-hidden shadow-lg animate-fade-in scroll-mt-4 ${ring}`}>
+            {onToggleSelect && (
+                <label className="absolute top-2 left-2 z-10 p-2 rounded-md bg-gray-900/70 cursor-pointer">
+                    <input type="checkbox" checked={!!isSelected} onChange={onToggleSelect} className="accent-blue-500 w-5 h-5 block" />
+                </label>
+            )}
+            {event.clipUrl ? (
+                <video src={event.clipUrl} poster={event.imageDataUrl} controls playsInline preload="none" className="w-full h-auto bg-black"></video>
+            ) : (
+                <img src={event.imageDataUrl} alt="Captura de evento de segurança" className="w-full h-auto object-cover" />
+            )}
             <div className="p-4">
                 <p className="text-sm text-gray-400 mb-2">
                     {event.timestamp.toLocaleDateString('pt-BR')} - {event.timestamp.toLocaleTimeString('pt-BR')}
+                    {event.zoneName && <span className="ml-2 px-2 py-0.5 rounded bg-gray-700 text-gray-300 text-xs">{event.zoneName}</span>}
+                    {event.source === 'audio' && (
+                        <span className="ml-2 px-2 py-0.5 rounded bg-purple-900/60 text-purple-200 text-xs inline-flex items-center gap-1">
+                            <AudioLines className="w-3 h-3" />{event.soundLabel ?? 'Som'}{event.soundLevel !== undefined && ` · ${event.soundLevel} dBFS`}
+                        </span>
+                    )}
                 </p>
                 {event.isAnalyzing ? (
                     <div className="flex items-center gap-2 text-blue-400">
@@ -64,7 +203,52 @@ const EventCard: React.FC<EventCardProps> = ({ event }) => {
                         <span>Analisando...</span>
                     </div>
                 ) : (
-                    <p className="text-gray-200">{event.analysis || "Não foi possível analisar a imagem."}</p>
+                    <>
+                        {event.threatLevel && threatStyle && (
+                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-xs font-semibold ${threatStyle.badge}`}>
+                                    <span className={`w-2 h-2 rounded-full ${threatStyle.dot}`} />
+                                    Ameaça: {THREAT_LEVEL_LABELS[event.threatLevel]}
+                                </span>
+                                {event.detectedClasses?.map(c => (
+                                    <span key={c} className="px-2 py-0.5 rounded-full bg-gray-700 text-gray-200 text-xs">{OBJECT_CLASS_LABELS[c]}</span>
+                                ))}
+                                {event.objectCount !== undefined && event.objectCount > 0 && (
+                                    <span className="text-xs text-gray-400">{event.objectCount} objeto{event.objectCount > 1 ? 's' : ''}</span>
+                                )}
+                                {event.recognition === 'known' && (
+                                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-900/60 text-green-200 text-xs"><UserCheck className="w-3 h-3" />{event.knownSubjects?.join(', ')}</span>
+                                )}
+                                {event.recognition === 'unknown' && (
+                                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-orange-900/60 text-orange-200 text-xs"><UserX className="w-3 h-3" />Desconhecido</span>
+                                )}
+                                {event.confidence !== undefined && (
+                                    <span className="text-xs text-gray-500 ml-auto">{Math.round(event.confidence * 100)}% de confiança</span>
+                                )}
+                            </div>
+                        )}
+                        {event.analysisError ? (
+                            <p className="text-yellow-400 text-sm">Análise pendente: {event.analysisError}</p>
+                        ) : (
+                            <p className="text-gray-200">{event.analysis || "Evento registrado sem análise por IA."}</p>
+                        )}
+                        {onReanalyze && (
+                            <button onClick={onReanalyze} className="text-blue-400 hover:underline text-sm mt-2 inline-flex items-center gap-1">
+                                <RefreshCw className="w-4 h-4" />{event.analysis ? 'Reanalisar' : 'Analisar'}
+                            </button>
+                        )}
+                    </>
+                )}
+                {event.isRecordingClip && (
+                    <div className="flex items-center gap-2 text-red-400 text-sm mt-2">
+                        <Video className="w-4 h-4 animate-pulse" />
+                        <span>{event.source === 'audio' ? 'Gravando áudio...' : 'Gravando clipe...'}</span>
+                    </div>
+                )}
+                {event.clipUrl && (
+                    <a href={event.clipUrl} download={`evento-${event.id}.${clipExtension(event.clipMimeType ?? '')}`} className="text-blue-400 hover:underline text-sm mt-2 inline-flex items-center gap-1">
+                        <Download className="w-4 h-4" />{event.source === 'audio' ? 'Baixar áudio' : 'Baixar clipe'}
+                    </a>
                 )}
             </div>
         </div>
@@ -72,58 +256,280 @@ const EventCard: React.FC<EventCardProps> = ({ event }) => {
 };
 
 // New Viewer Component for real-time streaming
-const Viewer: React.FC<{ peerId: string }> = ({ peerId }) => {
+const Viewer: React.FC<{ peerId: string; token: string | null; network: NetworkSettings }> = ({ peerId, token, network }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const peerRef = useRef<Peer | null>(null);
+    const connRef = useRef<DataConnection | null>(null);
     const [status, setStatus] = useState('Conectando à câmera...');
     const [error, setError] = useState<string | null>(null);
+    const [credentials, setCredentials] = useState<ViewerCredentials | null>(token ? { token } : null);
+    const [passphrase, setPassphrase] = useState('');
+    const [cameraState, setCameraState] = useState<CameraState | null>(null);
+    const [remoteEvents, setRemoteEvents] = useState<RemoteEvent[]>([]);
+    const [snapshot, setSnapshot] = useState<{ image: string; timestamp: string } | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [stats, setStats] = useState<StreamStats | null>(null);
+    const [showStats, setShowStats] = useState(false);
+    // Starts muted: browsers refuse to autoplay video with sound until the user interacts.
+    const [isMuted, setIsMuted] = useState(true);
+    const [hasAudio, setHasAudio] = useState(false);
+    const [offlineSince, setOfflineSince] = useState<Date | null>(null);
+    const [offlineAlertSeconds, setOfflineAlertSeconds] = useState<number>(() => loadSetting('offlineAlertSeconds', 60));
+    const offlineAlertSecondsRef = useRef(offlineAlertSeconds);
+    offlineAlertSecondsRef.current = offlineAlertSeconds;
+
+    const sendControl = (message: ViewerMessage) => {
+        if (!connRef.current) return;
+        setNotice(null);
+        sendMessage(connRef.current, message);
+    };
+
+    const updateOfflineAlert = (seconds: number) => {
+        setOfflineAlertSeconds(seconds);
+        saveSetting('offlineAlertSeconds', seconds);
+        if (seconds > 0) requestNotificationPermission();
+    };
+
+    const submitPassphrase = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase) return;
+        setError(null);
+        setStatus('Conectando à câmera...');
+        setCredentials({ passphrase });
+    };
 
     useEffect(() => {
-        let isMounted = true;
-        import('peerjs').then(({ default: Peer }) => {
-            if (!isMounted) return;
+        if (!credentials) {
+            setStatus('Acesso protegido');
+            return;
+        }
+        if (!peerId) {
+            setError("Nenhum ID de câmera fornecido.");
+            setStatus("Erro");
+            return;
+        }
+        let isActive = true;
+        let peer: Peer | null = null;
+        let conn: DataConnection | null = null;
+        let call: MediaConnection | null = null;
+        let lastState: CameraState | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | null = null;
+        let offlineTimer: ReturnType<typeof setTimeout> | null = null;
+        let isOfflineAlerted = false;
+        let stopStats: (() => void) | null = null;
+        let stopRegistration: (() => void) | null = null;
+        const backoff = createBackoff();
 
-            const peer = new Peer();
-            peerRef.current = peer;
+        const schedule = (action: () => void, message: string) => {
+            const delay = backoff.next();
+            setStatus(`${message} Reconectando em ${Math.ceil(delay / 1000)}s...`);
+            retryTimer = setTimeout(() => {
+                retryTimer = null;
+                if (isActive) action();
+            }, delay);
+        };
 
-            peer.on('open', () => {
-                if (!peerId) {
-                    setError("Nenhum ID de câmera fornecido.");
-                    setStatus("Erro");
-                    return;
+        // Starts the offline countdown; the alert only fires if the camera stays unreachable.
+        const markLost = () => {
+            const thresholdSeconds = offlineAlertSecondsRef.current;
+            if (offlineTimer || isOfflineAlerted || !thresholdSeconds) return;
+            offlineTimer = setTimeout(() => {
+                offlineTimer = null;
+                isOfflineAlerted = true;
+                setOfflineSince(new Date(Date.now() - thresholdSeconds * 1000));
+                showNotification('Vigilância IA: câmera offline', { body: `Sem conexão com a câmera ${peerId} há mais de ${thresholdSeconds}s.`, tag: `offline-${peerId}` });
+            }, thresholdSeconds * 1000);
+        };
+
+        const markFound = () => {
+            if (offlineTimer) clearTimeout(offlineTimer);
+            offlineTimer = null;
+            if (isOfflineAlerted) {
+                isOfflineAlerted = false;
+                setOfflineSince(null);
+                showNotification('Vigilância IA: câmera online', { body: `A câmera ${peerId} voltou a responder.`, tag: `offline-${peerId}` });
+            }
+        };
+
+        const closeCall = () => {
+            stopStats?.();
+            stopStats = null;
+            setStats(null);
+            const currentCall = call;
+            call = null;
+            currentCall?.close();
+        };
+
+        const stop = () => {
+            isActive = false;
+            if (retryTimer) clearTimeout(retryTimer);
+            if (offlineTimer) clearTimeout(offlineTimer);
+            stopRegistration?.();
+            closeCall();
+            connRef.current = null;
+            peer?.destroy();
+        };
+
+        // Drops the data connection and starts over with a fresh handshake.
+        const retryConnection = (message: string) => {
+            if (!isActive || retryTimer) return;
+            closeCall();
+            const currentConn = conn;
+            conn = null;
+            connRef.current = null;
+            currentConn?.close();
+            lastState = null;
+            setCameraState(null);
+            markLost();
+            schedule(connect, message);
+        };
+
+        // Only the media failed: call again while the camera still reports a stream.
+        const retryCall = () => {
+            if (!isActive || retryTimer) return;
+            closeCall();
+            if (!conn) return;
+            if (!lastState?.hasStream) {
+                setStatus('Câmera desarmada');
+                return;
+            }
+            schedule(callCamera, "Transmissão interrompida.");
+        };
+
+        const callCamera = () => {
+            if (call || !peer || !conn) return;
+            const currentCall = peer.call(peerId, new MediaStream());
+            call = currentCall;
+            const timeout = setTimeout(() => {
+                if (call === currentCall) retryCall();
+            }, CALL_TIMEOUT_MS);
+
+            currentCall.on('stream', (remoteStream) => {
+                clearTimeout(timeout);
+                if (call !== currentCall) return;
+                backoff.reset();
+                markFound();
+                setStatus('Conectado');
+                setError(null);
+                if (videoRef.current) {
+                    videoRef.current.srcObject = remoteStream;
                 }
-                
-                const call = peer.call(peerId, new MediaStream());
+                setHasAudio(remoteStream.getAudioTracks().length > 0);
+                stopStats?.();
+                stopStats = watchStreamStats(currentCall.peerConnection, setStats);
+            });
+
+            currentCall.on('close', () => {
+                clearTimeout(timeout);
+                if (call === currentCall) retryCall();
+            });
 
-                call.on('stream', (remoteStream) => {
-                    setStatus('Conectado');
-                    setError(null);
-                    if (videoRef.current) {
-                        videoRef.current.srcObject = remoteStream;
+            currentCall.on('error', () => {
+                clearTimeout(timeout);
+                if (call === currentCall) retryCall();
+            });
+        };
+
+        const handleMessage = (message: CameraMessage) => {
+            switch (message.type) {
+                case 'kicked':
+                    stop();
+                    setError("O dono da câmera encerrou o seu acesso.");
+                    setStatus('Desconectado');
+                    break;
+                case 'state':
+                    lastState = message.state;
+                    setCameraState(message.state);
+                    if (message.state.hasStream) {
+                        callCamera();
+                    } else {
+                        setStatus('Câmera desarmada');
                     }
+                    break;
+                case 'events':
+                    setRemoteEvents(message.events);
+                    break;
+                case 'event':
+                    setRemoteEvents(prev => [message.event, ...prev.filter(e => e.id !== message.event.id)].slice(0, REMOTE_FEED_SIZE));
+                    break;
+                case 'snapshot':
+                    setSnapshot({ image: message.image, timestamp: message.timestamp });
+                    break;
+                case 'error':
+                    setNotice(message.message);
+                    break;
+            }
+        };
+
+        const connect = () => {
+            // While the broker is unreachable the peer's 'open' handler resumes from here.
+            if (!peer || peer.disconnected || conn) return;
+            setStatus('Conectando à câmera...');
+            authenticate(peer, peerId, credentials).then(newConn => {
+                if (!isActive) {
+                    newConn.close();
+                    return;
+                }
+                conn = newConn;
+                connRef.current = newConn;
+                backoff.reset();
+                markFound();
+                setError(null);
+                newConn.on('data', (data) => handleMessage(data as CameraMessage));
+                newConn.on('close', () => {
+                    if (conn === newConn) retryConnection("Conexão com a câmera perdida.");
                 });
-                
-                call.on('close', () => {
-                    setStatus('Câmera desconectada');
+            }).catch((err: Error) => {
+                if (!isActive) return;
+                if (err instanceof AccessDeniedError) {
+                    stop();
+                    setError(err.message);
+                    setStatus('Acesso negado');
+                    setCredentials(null);
+                    return;
+                }
+                retryConnection(err.message);
+            });
+        };
+
+        const startPeer = () => {
+            createPeer(network).then(newPeer => {
+                if (!isActive) {
+                    newPeer.destroy();
+                    return;
+                }
+                peer = newPeer;
+                peerRef.current = newPeer;
+                stopRegistration = keepPeerRegistered(newPeer, (retryInMs) => {
+                    if (retryInMs !== null) setStatus(`Sem conexão com o servidor. Reconectando em ${Math.ceil(retryInMs / 1000)}s...`);
                 });
-                
-                call.on('error', () => {
-                    setError("Não foi possível conectar à câmera. Verifique se o link está correto e se a câmera está ativa e monitorando.");
-                    setStatus('Erro de conexão');
+
+                newPeer.on('open', () => {
+                    if (!retryTimer) connect();
                 });
-            });
 
-            peer.on('error', (err: any) => {
-                setError(`Erro de conexão P2P (${err.type}). A câmera pode estar offline ou o ID ser inválido.`);
-                setStatus('Erro');
+                newPeer.on('error', (err: any) => {
+                    // An offline camera surfaces as a handshake timeout, which retries on its own.
+                    if (err.type === 'peer-unavailable') return;
+                    if (isBrokerError(err)) {
+                        // A peer that never reached the broker is destroyed instead of disconnected.
+                        if (newPeer.destroyed && !retryTimer) {
+                            markLost();
+                            stopRegistration?.();
+                            schedule(startPeer, "Servidor de sinalização indisponível.");
+                        }
+                        return;
+                    }
+                    console.error("PeerJS error:", err);
+                    setError(`Erro de conexão P2P (${err.type}). A câmera pode estar offline ou o ID ser inválido.`);
+                    setStatus('Erro');
+                });
             });
-        });
-
-        return () => {
-            isMounted = false;
-            peerRef.current?.destroy();
         };
-    }, [peerId]);
+
+        startPeer();
+        return stop;
+    }, [peerId, credentials, network]);
 
     return (
         <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center p-4">
@@ -132,15 +538,48 @@ const Viewer: React.FC<{ peerId: string }> = ({ peerId }) => {
                     Visualizador da Câmera
                 </h1>
             </header>
+            {offlineSince && (
+                <div className="w-full max-w-5xl mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg flex items-center justify-center gap-2">
+                    <WifiOff className="w-5 h-5" />Câmera offline desde {offlineSince.toLocaleTimeString('pt-BR')}.
+                </div>
+            )}
             <div className="relative aspect-video w-full max-w-5xl bg-black rounded-xl shadow-2xl overflow-hidden border-2 border-gray-700">
-                <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover"></video>
+                <video ref={videoRef} autoPlay playsInline muted={isMuted} className="w-full h-full object-cover"></video>
+                {status === 'Conectado' && hasAudio && (
+                    <button onClick={() => setIsMuted(prev => !prev)} title={isMuted ? 'Ativar som' : 'Silenciar'} className="absolute top-3 right-14 z-10 p-2 rounded-lg backdrop-blur-sm bg-gray-800/50 text-gray-200 hover:bg-gray-700/70">
+                        {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+                    </button>
+                )}
+                {status === 'Conectado' && (
+                    <button onClick={() => setShowStats(prev => !prev)} title="Estatísticas da conexão" className={`absolute top-3 right-3 z-10 p-2 rounded-lg backdrop-blur-sm ${showStats ? 'bg-blue-600 text-white' : 'bg-gray-800/50 text-gray-200 hover:bg-gray-700/70'}`}>
+                        <Activity className="w-5 h-5" />
+                    </button>
+                )}
+                {status === 'Conectado' && showStats && <StreamStatsOverlay stats={stats} />}
                 <div className="absolute inset-0 flex items-center justify-center bg-black/50 transition-opacity duration-300" style={{ opacity: status !== 'Conectado' ? 1 : 0, pointerEvents: status !== 'Conectado' ? 'auto' : 'none' }}>
-                    {error ? (
+                    {!credentials ? (
+                        <form onSubmit={submitPassphrase} className="text-center text-gray-200 p-4 flex flex-col items-center gap-3">
+                            <KeyRound className="w-12 h-12 text-blue-400" />
+                            <h2 className="text-2xl font-bold">{status}</h2>
+                            {error && <p className="text-red-400">{error}</p>}
+                            <p className="text-gray-400 max-w-sm">Digite a senha da câmera ou use um link de convite.</p>
+                            <div className="flex gap-2">
+                                <input type="password" autoFocus value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Senha" className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                                <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md">Entrar</button>
+                            </div>
+                        </form>
+                    ) : error ? (
                         <div className="text-center text-red-400 p-4">
                             <XCircle className="w-16 h-16 mx-auto mb-4" />
                             <h2 className="text-2xl font-bold">{status}</h2>
                             <p className="mt-2 max-w-sm">{error}</p>
                         </div>
+                    ) : cameraState && !cameraState.hasStream ? (
+                        <div className="text-center text-gray-300">
+                            <Power className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                            <h2 className="text-2xl font-bold">{status}</h2>
+                            <p className="mt-2 text-gray-400">Arme a câmera para ver a transmissão.</p>
+                        </div>
                     ) : (
                         <div className="text-center text-gray-200">
                             <Loader className="w-16 h-16 mx-auto mb-4 animate-spin" />
@@ -149,9 +588,46 @@ const Viewer: React.FC<{ peerId: string }> = ({ peerId }) => {
                     )}
                 </div>
             </div>
+            {cameraState && (
+                <div className="w-full max-w-5xl mt-4 flex flex-col gap-4">
+                    <div className="flex flex-wrap items-center justify-center gap-3">
+                        <StatusDisplay status={cameraState.status} />
+                        <button onClick={() => sendControl({ type: cameraState.isMonitoring ? 'disarm' : 'arm' })} className={`px-5 py-2 font-semibold rounded-full text-white flex items-center gap-2 transition-colors ${cameraState.isMonitoring ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}>
+                            <Power className="w-5 h-5" />{cameraState.isMonitoring ? 'Desarmar' : 'Armar'}
+                        </button>
+                        <button onClick={() => sendControl({ type: 'snapshot-request' })} disabled={!cameraState.hasStream} className="px-5 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 rounded-full flex items-center gap-2">
+                            <Camera className="w-5 h-5" />Capturar foto
+                        </button>
+                        <button onClick={() => sendControl({ type: 'switch-camera' })} disabled={!cameraState.hasStream} className="px-5 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 rounded-full flex items-center gap-2">
+                            <SwitchCamera className="w-5 h-5" />Trocar câmera
+                        </button>
+                    </div>
+                    {notice && <p className="text-center text-yellow-400">{notice}</p>}
+                    {snapshot && (
+                        <div className="bg-gray-800 p-4 rounded-lg shadow-md flex flex-col items-center gap-3">
+                            <img src={snapshot.image} alt="Foto capturada remotamente" className="max-h-96 rounded" />
+                            <div className="flex gap-4 text-sm">
+                                <a href={snapshot.image} download={`foto-${snapshot.timestamp.replace(/[:.]/g, '-')}.jpg`} className="text-blue-400 hover:underline flex items-center gap-1"><Download className="w-4 h-4" />Baixar</a>
+                                <button onClick={() => setSnapshot(null)} className="text-gray-400 hover:text-white">Fechar</button>
+                            </div>
+                        </div>
+                    )}
+                    <RemoteEventFeed events={remoteEvents} />
+                </div>
+            )}
             <footer className="mt-4 text-center text-gray-500">
                 <p>Visualizando a transmissão de: {peerId}</p>
+                <div className="mt-2">
+                    <label className="inline-flex items-center gap-2 text-sm">
+                        <Bell className="w-4 h-4" />Alertar se a câmera ficar offline por
+                        <select value={offlineAlertSeconds} onChange={(e) => updateOfflineAlert(Number(e.target.value))} className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-300">
+                            {OFFLINE_ALERT_OPTIONS.map(option => <option key={option.seconds} value={option.seconds}>{option.label}</option>)}
+                        </select>
+                    </label>
+                </div>
                  <a href={window.location.origin + window.location.pathname} className="text-blue-400 hover:underline mt-2 inline-block">Voltar para o modo câmera</a>
+                 <span className="mx-2 text-gray-600">·</span>
+                 <a href={`${window.location.origin}${window.location.pathname}?dashboard`} className="text-blue-400 hover:underline mt-2 inline-block">Painel de câmeras</a>
             </footer>
         </div>
     );
@@ -167,27 +643,209 @@ const CameraView: React.FC = () => {
     const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
     const [peerId, setPeerId] = useState<string | null>(null);
     const [peerError, setPeerError] = useState<string | null>(null);
-    const [isLinkCopied, setIsLinkCopied] = useState(false);
+    const [accessSettings, setAccessSettings] = useState<AccessSettings>(() => {
+        const saved = loadSetting<AccessSettings>('access', { passphrase: '', secret: generateSecret(), invites: [] });
+        return { ...saved, invites: saved.invites.filter(invite => isInviteActive(invite)) };
+    });
+    const [viewers, setViewers] = useState<ConnectedViewer[]>([]);
+    const [cameraSettings, setCameraSettings] = useState<CameraSettings>(() => loadSetting('camera', DEFAULT_CAMERA_SETTINGS));
+    const [trackControls, setTrackControls] = useState<TrackControls | null>(null);
+    const [filter, setFilter] = useState<EventFilter>(EMPTY_FILTER);
+    const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+    const [highlightedId, setHighlightedId] = useState<string | null>(null);
+    const [retention, setRetention] = useState<RetentionPolicy>(() => loadSetting('retention', DEFAULT_RETENTION));
+    const [cameraId, setCameraId] = useState<string | null>(null);
+    const [zones, setZones] = useState<MotionZone[]>([]);
+    const [isEditingZones, setIsEditingZones] = useState(false);
+    const [frameSize, setFrameSize] = useState({ width: DETECTION_WIDTH, height: DETECTION_HEIGHT });
+    const [motionSettings, setMotionSettings] = useState<MotionSettings>(() => loadSetting('motion', DEFAULT_MOTION_SETTINGS));
+    const [showMotionSettings, setShowMotionSettings] = useState(false);
+    const [heatmap, setHeatmap] = useState<MotionHeatmap | null>(null);
+    const [clipSettings, setClipSettings] = useState<ClipSettings>(() => loadSetting('clips', DEFAULT_CLIP_SETTINGS));
+    const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => loadSetting('audio', DEFAULT_AUDIO_SETTINGS));
+    const [audioLevel, setAudioLevel] = useState<number | null>(null);
+    const [activeStream, setActiveStream] = useState<MediaStream | null>(null);
+    const [analyzerSettings, setAnalyzerSettings] = useState<AnalyzerSettings>(() => loadSetting('analyzer', DEFAULT_ANALYZER_SETTINGS));
+    const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadSetting('alertRules', []));
+    const [queueSettings, setQueueSettings] = useState<AnalysisQueueSettings>(() => loadSetting('analysisQueue', DEFAULT_ANALYSIS_QUEUE_SETTINGS));
+    const [queueState, setQueueState] = useState<AnalysisQueueState>({ pending: 0, running: 0, waitingReason: null });
+    const [analysisUsage, setAnalysisUsage] = useState<AnalysisUsageDay[]>(loadUsage);
+    const [watchlist, setWatchlist] = useState<WatchlistEntry[]>(() => loadSetting('watchlist', []));
+    const [networkSettings, setNetworkSettings] = useState<NetworkSettings>(loadNetworkSettings);
+    const [peerAttempt, setPeerAttempt] = useState(0);
+    const [armingSettings, setArmingSettings] = useState<ArmingSettings>(() => loadSetting('arming', createDefaultArmingSettings(loadSetting('motion', DEFAULT_MOTION_SETTINGS))));
+    const [activeProfileId, setActiveProfileId] = useState<string>(() => loadSetting('activeProfile', ''));
+    const [clock, setClock] = useState(() => new Date());
 
     const videoRef = useRef<HTMLVideoElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const oldCanvasRef = useRef<HTMLCanvasElement>(null);
-    const animationFrameId = useRef<number | null>(null);
-    const lastDetectionTime = useRef<number>(0);
+    const motionEngineRef = useRef<MotionEngine | null>(null);
+    const clipRecorderRef = useRef<ClipRecorder | null>(null);
+    const audioClipRecorderRef = useRef<ClipRecorder | null>(null);
+    const audioDetectorRef = useRef<AudioDetector | null>(null);
+    const analysisQueueRef = useRef<AnalysisQueue | null>(null);
+    const ruleLastFired = useRef(new Map<string, number>());
     const peerRef = useRef<Peer | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
     const pendingCalls = useRef<MediaConnection[]>([]);
+    const accessGateRef = useRef<AccessGate | null>(null);
+    const peerBackoff = useRef(createBackoff());
+    // Assigned further down, once the handlers they point to exist.
+    const handleViewerJoinedRef = useRef<(viewerId: string) => void>(() => {});
+    const handleViewerMessageRef = useRef<(viewerId: string, message: ViewerMessage) => void>(() => {});
+    const accessSettingsRef = useRef(accessSettings);
+    accessSettingsRef.current = accessSettings;
+    const armingSettingsRef = useRef(armingSettings);
+    armingSettingsRef.current = armingSettings;
+    const cameraSettingsRef = useRef(cameraSettings);
+    cameraSettingsRef.current = cameraSettings;
+    const audioSettingsRef = useRef(audioSettings);
+    audioSettingsRef.current = audioSettings;
+
+    useEffect(() => {
+        saveSetting('access', accessSettings);
+    }, [accessSettings]);
+
+    const revokeInvite = (inviteId: string) => {
+        setAccessSettings(prev => ({ ...prev, invites: prev.invites.filter(invite => invite.id !== inviteId) }));
+        accessGateRef.current?.kickInvite(inviteId);
+    };
+
+    const activeProfile = getProfile(armingSettings, activeProfileId);
+    const effectiveMotionSettings = useMemo(() => ({ ...motionSettings, ...activeProfile.motion }), [motionSettings, activeProfile.motion]);
+    const activeRules = useMemo(() => alertRules.filter(rule => !activeProfile.disabledRuleIds.includes(rule.id)), [alertRules, activeProfile.disabledRuleIds]);
+    const zoneMask = useMemo(() => {
+        const activeZones = zones.filter(zone => !activeProfile.disabledZoneIds.includes(zone.id));
+        return buildZoneMask(activeZones, DETECTION_WIDTH, DETECTION_HEIGHT);
+    }, [zones, activeProfile.disabledZoneIds]);
+    const nextProfileChange = getNextScheduledChange(armingSettings, clock);
+
+    const applyProfile = useCallback((profileId: string) => {
+        setActiveProfileId(profileId);
+        const profile = armingSettingsRef.current.profiles.find(p => p.id === profileId);
+        if (profile) setIsMonitoring(profile.armed);
+    }, []);
+
+    // The sensitivity, area and cooldown sliders edit the active profile; the rest is shared.
+    const updateMotionSettings = (settings: MotionSettings) => {
+        setMotionSettings(settings);
+        setArmingSettings(prev => ({
+            ...prev,
+            profiles: prev.profiles.map(p => p.id === activeProfile.id ? { ...p, motion: pickProfileMotion(settings) } : p),
+        }));
+    };
+
+    useEffect(() => {
+        saveSetting('arming', armingSettings);
+    }, [armingSettings]);
+
+    useEffect(() => {
+        saveSetting('activeProfile', activeProfileId);
+    }, [activeProfileId]);
+
+    // Acts only when the scheduled profile changes, so a manual switch holds until the next change.
+    const lastScheduledProfileId = useRef<string | null>(null);
+    useEffect(() => {
+        const tick = () => {
+            const now = new Date();
+            setClock(now);
+            if (!armingSettings.scheduleEnabled) {
+                lastScheduledProfileId.current = null;
+                return;
+            }
+            const scheduled = getScheduledProfileId(armingSettings, now);
+            if (scheduled === lastScheduledProfileId.current) return;
+            lastScheduledProfileId.current = scheduled;
+            applyProfile(scheduled);
+        };
+        tick();
+        const interval = setInterval(tick, SCHEDULE_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [armingSettings, applyProfile]);
+
+    useEffect(() => {
+        if (cameraId) setZones(loadZones(cameraId));
+    }, [cameraId]);
+
+    const updateZones = (newZones: MotionZone[]) => {
+        setZones(newZones);
+        if (cameraId) saveZones(cameraId, newZones);
+    };
+
+    const removeEvents = useCallback((ids: string[]) => {
+        if (ids.length === 0) return;
+        setEvents(prev => prev.filter(event => {
+            if (!ids.includes(event.id)) return true;
+            revokeEventUrls(event);
+            return false;
+        }));
+    }, []);
+
+    const pruneEvents = useCallback(async () => {
+        try {
+            removeEvents(await enforceRetention(retention));
+        } catch (err) {
+            console.error("Erro ao aplicar a política de retenção:", err);
+        }
+    }, [retention, removeEvents]);
 
     useEffect(() => {
         let isMounted = true;
-        import('peerjs').then(({ default: Peer }) => {
-            if (!isMounted) return;
-            const peer = new Peer();
+        loadEvents()
+            .then(storedEvents => {
+                if (!isMounted) {
+                    storedEvents.forEach(revokeEventUrls);
+                    return;
+                }
+                setEvents(prev => [...prev, ...storedEvents.filter(stored => !prev.some(e => e.id === stored.id))]);
+            })
+            .catch(err => console.error("Erro ao carregar o histórico de eventos:", err));
+        return () => {
+            isMounted = false;
+        };
+    }, []);
+
+    useEffect(() => {
+        saveSetting('retention', retention);
+        pruneEvents();
+    }, [retention, pruneEvents]);
+
+    useEffect(() => {
+        saveSetting('network', networkSettings);
+    }, [networkSettings]);
+
+    useEffect(() => {
+        setPeerId(null);
+        setPeerError(null);
+        let isMounted = true;
+        let stopRegistration: (() => void) | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | null = null;
+        createPeer(networkSettings, networkSettings.cameraPeerId || undefined).then(peer => {
+            if (!isMounted) {
+                peer.destroy();
+                return;
+            }
             peerRef.current = peer;
+            const gate = createAccessGate(() => accessSettingsRef.current, {
+                onViewersChange: setViewers,
+                onAuthenticated: (viewerId) => handleViewerJoinedRef.current(viewerId),
+                onMessage: (viewerId, message) => handleViewerMessageRef.current(viewerId, message),
+            });
+            accessGateRef.current = gate;
+
+            stopRegistration = keepPeerRegistered(peer, (retryInMs) => {
+                setPeerError(retryInMs === null ? null : `Conexão com o servidor de sinalização perdida. Reconectando em ${Math.ceil(retryInMs / 1000)}s...`);
+            });
 
-            peer.on('open', (id) => setPeerId(id));
+            peer.on('open', (id) => {
+                peerBackoff.current.reset();
+                setPeerId(id);
+            });
+
+            // Viewers must authenticate over a data connection before their call is answered.
+            peer.on('connection', gate.handleConnection);
             
             peer.on('call', (call) => {
+                if (!gate.admitCall(call)) return;
                 if (mediaStreamRef.current) {
                     call.answer(mediaStreamRef.current);
                 } else {
@@ -197,14 +855,34 @@ const CameraView: React.FC = () => {
             
             peer.on('error', (err: any) => {
                 console.error("PeerJS error:", err);
-                setPeerError(`Erro de conexão P2P (${err.type}). Tente recarregar a página.`);
+                if (!isBrokerError(err)) {
+                    setPeerError(`Erro de conexão P2P (${err.type}). Tente recarregar a página.`);
+                    return;
+                }
+                // Dropping an open registration is handled by keepPeerRegistered; a peer
+                // that never got one is destroyed and has to be created again.
+                if (!peer.destroyed || retryTimer) return;
+                const delay = peerBackoff.current.next();
+                const retryIn = `Nova tentativa em ${Math.ceil(delay / 1000)}s.`;
+                if (err.type === 'unavailable-id') {
+                    // Also happens right after a reload, until the broker drops the previous session.
+                    setPeerError(`O ID "${networkSettings.cameraPeerId}" já está em uso por outra câmera. ${retryIn}`);
+                } else {
+                    setPeerError(`Não foi possível conectar ao servidor de sinalização${networkSettings.host ? ` ${networkSettings.host}:${networkSettings.port}` : ''}. ${retryIn}`);
+                }
+                retryTimer = setTimeout(() => setPeerAttempt(n => n + 1), delay);
             });
         });
         return () => {
             isMounted = false;
+            if (retryTimer) clearTimeout(retryTimer);
+            stopRegistration?.();
+            accessGateRef.current?.dispose();
+            accessGateRef.current = null;
             peerRef.current?.destroy();
+            peerRef.current = null;
         };
-    }, []); 
+    }, [networkSettings, peerAttempt]);
 
     const cleanupCamera = useCallback(() => {
         if (mediaStreamRef.current) {
@@ -214,19 +892,28 @@ const CameraView: React.FC = () => {
           videoRef.current.srcObject = null;
         }
         mediaStreamRef.current = null;
+        setActiveStream(null);
+        setTrackControls(null);
+        // Viewers keep their data connection and call again when the camera is back.
+        accessGateRef.current?.closeCalls();
+    }, []);
+
+    const attachStream = useCallback((stream: MediaStream) => {
+        if (videoRef.current) {
+            videoRef.current.srcObject = stream;
+        }
+        mediaStreamRef.current = stream;
+        setActiveStream(stream);
+        const videoTrack = stream.getVideoTracks()[0];
+        setCameraId(videoTrack?.getSettings().deviceId || 'default');
+        setTrackControls(getTrackControls(videoTrack));
     }, []);
 
     const setupCamera = useCallback(async () => {
         setError(null);
         try {
-            if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-                throw new Error("A API da câmera não é suportada neste navegador.");
-            }
-            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
-            if (videoRef.current) {
-                videoRef.current.srcObject = stream;
-            }
-            mediaStreamRef.current = stream;
+            const stream = await openCameraStream(cameraSettingsRef.current);
+            attachStream(stream);
             setHasCameraPermission(true);
             
             // Answer any pending calls now that the stream is ready
@@ -244,56 +931,324 @@ const CameraView: React.FC = () => {
             setHasCameraPermission(false);
             cleanupCamera();
         }
-    }, [cleanupCamera]);
+    }, [cleanupCamera, attachStream]);
 
+    // Device, resolution and microphone changes open a new stream and move live calls onto it.
+    const streamConstraints = JSON.stringify(buildConstraints(cameraSettings));
+    const previousConstraints = useRef(streamConstraints);
+    useEffect(() => {
+        saveSetting('camera', cameraSettings);
+    }, [cameraSettings]);
 
-    const handleMotionDetected = useCallback(async (imageDataUrl: string) => {
-        const now = Date.now();
-        if (now - lastDetectionTime.current < COOLDOWN_SECONDS * 1000) return;
-        lastDetectionTime.current = now;
+    useEffect(() => {
+        if (previousConstraints.current === streamConstraints) return;
+        previousConstraints.current = streamConstraints;
+        const oldStream = mediaStreamRef.current;
+        if (!oldStream) return;
+        let isCurrent = true;
+        let isOldStreamStopped = false;
+        const swap = async () => {
+            let stream: MediaStream;
+            try {
+                stream = await openCameraStream(cameraSettingsRef.current);
+            } catch {
+                // Many phones can't open a second camera while the first is still running.
+                oldStream.getTracks().forEach(track => track.stop());
+                isOldStreamStopped = true;
+                stream = await openCameraStream(cameraSettingsRef.current);
+            }
+            if (!isCurrent || mediaStreamRef.current !== oldStream) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+            attachStream(stream);
+            await accessGateRef.current?.replaceStream(stream);
+            oldStream.getTracks().forEach(track => track.stop());
+        };
+        swap().catch(err => {
+            console.error("Erro ao trocar de câmera:", err);
+            if (isOldStreamStopped && mediaStreamRef.current === oldStream) {
+                // The detectors, the recorders and the calls are still on the stopped tracks:
+                // start over, and let setupCamera report it if the camera still won't open.
+                cleanupCamera();
+                setupCamera();
+                return;
+            }
+            setError(`Erro ao trocar de câmera: ${err instanceof Error ? err.message : err}`);
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, [streamConstraints, attachStream, cleanupCamera, setupCamera]);
 
-        const newEvent: DetectionEvent = { id: now.toString(), timestamp: new Date(), imageDataUrl, analysis: null, isAnalyzing: true };
-        setEvents(prevEvents => [newEvent, ...prevEvents]);
-        setStatus('Analisando Imagem...');
+    useEffect(() => {
+        const track = activeStream?.getVideoTracks()[0];
+        if (!track) return;
+        applyTrackControls(track, cameraSettings).catch(err => console.error("Erro ao ajustar a câmera:", err));
+    }, [activeStream, cameraSettings.torch, cameraSettings.zoom, cameraSettings.focusMode, cameraSettings.focusDistance]);
 
+
+    // Sends the frames through the analysis queue and stores the outcome. A failure
+    // leaves the event unanalyzed with the reason, so it can be analyzed again later.
+    const analyzeEvent = useCallback(async (event: DetectionEvent, imageDataUrls: string[], saved: Promise<unknown>): Promise<DetectionEvent> => {
+        setStatus('Analisando Imagem...');
+        let result: Partial<DetectionEvent>;
         try {
-            const description = await analyzeImage(imageDataUrl);
-            setEvents(p => p.map(e => e.id === newEvent.id ? { ...e, analysis: description, isAnalyzing: false } : e));
-        } catch (apiError) {
-            setEvents(p => p.map(e => e.id === newEvent.id ? { ...e, analysis: "Falha ao analisar a imagem.", isAnalyzing: false } : e));
-        } finally {
-            if (isMonitoring) setStatus('Monitorando...');
+            const { analysis } = await analysisQueueRef.current!.submit(imageDataUrls, getActiveWatchlist(watchlist));
+            result = {
+                analysis: analysis.summary,
+                threatLevel: analysis.threatLevel,
+                detectedClasses: analysis.classes,
+                objectCount: analysis.objectCount,
+                confidence: analysis.confidence,
+                recognition: getRecognition(analysis),
+                knownSubjects: analysis.knownSubjects,
+                analysisError: undefined,
+            };
+        } catch (err) {
+            result = { analysisError: err instanceof Error ? err.message : "Falha ao analisar a imagem." };
         }
-    }, [isMonitoring]);
-
-    const drawAndCompare = useCallback(() => {
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        const oldCanvas = oldCanvasRef.current;
-        if (!video || !canvas || !oldCanvas || video.readyState !== 4) return;
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        const oldCtx = oldCanvas.getContext('2d', { willReadFrequently: true });
-        if (!ctx || !oldCtx) return;
-
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const currentData = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
-        const oldData = oldCtx.getImageData(0, 0, oldCanvas.width, oldCanvas.height).data;
-        let diff = 0;
-        for (let i = 0; i < currentData.length; i += 4) {
-            diff += Math.abs(currentData[i] - oldData[i]) + Math.abs(currentData[i + 1] - oldData[i + 1]) + Math.abs(currentData[i + 2] - oldData[i + 2]);
+        setEvents(p => p.map(e => e.id === event.id ? { ...e, ...result, isAnalyzing: false } : e));
+        if (isMonitoring) setStatus('Monitorando...');
+
+        const analyzedEvent: DetectionEvent = { ...event, ...result, isAnalyzing: false };
+        createThumbnail(event.imageDataUrl).catch(() => undefined)
+            .then(t => accessGateRef.current?.broadcast({ type: 'event', event: { ...serializeEvent(analyzedEvent), thumbnail: t } }));
+        await saved;
+        updateEvent(event.id, result).catch(err => console.error("Erro ao atualizar o evento:", err));
+        return analyzedEvent;
+    }, [isMonitoring, watchlist]);
+
+    // Extra frames for a batched analysis request, taken while the event unfolds.
+    const captureFollowUpFrames = async (count: number): Promise<string[]> => {
+        const frames: string[] = [];
+        for (let i = 0; i < count; i++) {
+            await new Promise(resolve => setTimeout(resolve, BATCH_FRAME_INTERVAL_MS));
+            const frame = videoRef.current ? await captureFrame(videoRef.current) : null;
+            if (!frame) break;
+            frames.push(await blobToDataUrl(frame));
         }
-        if (diff / (currentData.length / 4) > MOTION_SENSITIVITY) {
-            setStatus('Movimento Detectado!');
-            handleMotionDetected(canvas.toDataURL('image/jpeg'));
+        return frames;
+    };
+
+    // Shared by motion and audio triggers: stores the event, attaches the clip once it's
+    // recorded, queues the analysis and evaluates the alert rules.
+    const recordEvent = useCallback(async (image: Blob, details: Partial<DetectionEvent>, clip: Promise<Blob | null> | undefined) => {
+        const now = Date.now();
+        const analyzer = getImageAnalyzer(analyzerSettings);
+        const newEvent: DetectionEvent = { ...details, id: now.toString(), timestamp: new Date(), imageDataUrl: URL.createObjectURL(image), analysis: null, isAnalyzing: Boolean(analyzer), isRecordingClip: Boolean(clip) };
+        setEvents(prevEvents => [newEvent, ...prevEvents]);
+        createThumbnail(newEvent.imageDataUrl).catch(() => undefined)
+            .then(t => accessGateRef.current?.broadcast({ type: 'event', event: { ...serializeEvent(newEvent), isAnalyzing: newEvent.isAnalyzing, thumbnail: t } }));
+        const saved = saveEvent(newEvent, image)
+            .then(pruneEvents)
+            .catch(err => console.error("Erro ao salvar o evento:", err));
+
+        clip?.then(async (clipBlob) => {
+            const clipUrl = clipBlob ? URL.createObjectURL(clipBlob) : undefined;
+            setEvents(p => p.map(e => e.id === newEvent.id ? { ...e, clipUrl, clipMimeType: clipBlob?.type, isRecordingClip: false } : e));
+            if (!clipBlob) return;
+            await saved;
+            await attachClip(newEvent.id, clipBlob);
+            await pruneEvents();
+        }).catch(err => console.error("Erro ao salvar o clipe:", err));
+
+        // Keep the snapshot as a Blob; the data URL is only needed for the analysis request.
+        const imageDataUrl = await blobToDataUrl(image);
+        // A rule fires at most once per event, whichever evaluation matches it first.
+        const fired = new Set<string>();
+        const fireRules = (event: DetectionEvent) => {
+            evaluateRules(activeRules.filter(rule => !fired.has(rule.id)), event, ruleLastFired.current).forEach(rule => {
+                fired.add(rule.id);
+                runAlertActions(rule, event, imageDataUrl);
+            });
+        };
+        // Rules still run when the analysis failed, so an unreachable analyzer doesn't silence alerts.
+        if (!analyzer) {
+            fireRules(newEvent);
+            return;
         }
-        oldCtx.drawImage(canvas, 0, 0, oldCanvas.width, oldCanvas.height);
-    }, [handleMotionDetected]);
-    
-    const detectionLoop = useCallback(() => {
-        if (!isMonitoring) return;
-        drawAndCompare();
-        animationFrameId.current = requestAnimationFrame(detectionLoop);
-    }, [isMonitoring, drawAndCompare]);
+        const frames = [imageDataUrl, ...await captureFollowUpFrames(queueSettings.batchFrames - 1)];
+        const analysis = analyzeEvent(newEvent, frames, saved);
+        const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), RULES_ANALYSIS_TIMEOUT_MS));
+        const analyzedEvent = await Promise.race([analysis, timeout]);
+        if (analyzedEvent) {
+            fireRules(analyzedEvent);
+            return;
+        }
+        // Held in the queue (offline, over the per-minute budget, retrying): rules that
+        // don't depend on the analysis fire now, the others once it arrives.
+        fireRules(newEvent);
+        fireRules(await analysis);
+    }, [pruneEvents, analyzerSettings, activeRules, analyzeEvent, queueSettings.batchFrames]);
+
+    // Alert rules aren't evaluated again; they already ran when the event happened.
+    const reanalyzeEvent = async (event: DetectionEvent) => {
+        setEvents(p => p.map(e => e.id === event.id ? { ...e, isAnalyzing: true, analysisError: undefined } : e));
+        try {
+            const imageDataUrl = await fetch(event.imageDataUrl).then(r => r.blob()).then(blobToDataUrl);
+            await analyzeEvent(event, [imageDataUrl], Promise.resolve());
+        } catch (err) {
+            console.error("Erro ao reanalisar o evento:", err);
+            setEvents(p => p.map(e => e.id === event.id ? { ...e, isAnalyzing: false } : e));
+        }
+    };
+
+    // Analyses that failed, typically while offline, are retried when the connection
+    // returns. Only the most recent ones, so a long outage doesn't eat the daily budget.
+    const retryFailedAnalysesRef = useRef<() => void>(() => {});
+    retryFailedAnalysesRef.current = () => {
+        if (!getImageAnalyzer(analyzerSettings)) return;
+        events.filter(e => e.analysisError && !e.isAnalyzing).slice(0, MAX_RETRIED_ANALYSES).forEach(reanalyzeEvent);
+    };
+
+    useEffect(() => {
+        const stopOutbox = watchOutbox();
+        const handleOnline = () => retryFailedAnalysesRef.current();
+        window.addEventListener('online', handleOnline);
+        return () => {
+            stopOutbox();
+            window.removeEventListener('online', handleOnline);
+        };
+    }, []);
+
+    const handleMotionDetected = useCallback((image: Blob, zone: { id: string; name: string }) => {
+        recordEvent(image, { source: 'motion', zoneId: zone.id, zoneName: zone.name }, clipRecorderRef.current?.capture());
+    }, [recordEvent]);
+
+    const handleSoundDetected = useCallback(async (trigger: AudioTrigger) => {
+        const settings = audioSettingsRef.current;
+        let match: SoundMatch | null = null;
+        if (settings.classifierEnabled) {
+            try {
+                match = await classifySound(trigger.samples, trigger.sampleRate, settings.categories, settings.classifierMinScore);
+                if (!match) return;
+            } catch (err) {
+                // Without the model (e.g. offline before the first download) the threshold alone decides.
+                console.error(err);
+            }
+        }
+        const frame = videoRef.current ? await captureFrame(videoRef.current) : null;
+        if (!frame) return;
+        setStatus('Som Detectado!');
+        recordEvent(frame, {
+            source: 'audio',
+            soundLevel: Math.round(trigger.levelDb),
+            soundLabel: match ? SOUND_CATEGORY_LABELS[match.category] : undefined,
+        }, audioClipRecorderRef.current?.capture());
+    }, [recordEvent]);
+
+    // The engine and the audio detector outlive renders; they always call the latest handler through these refs.
+    const handleMotionRef = useRef(handleMotionDetected);
+    handleMotionRef.current = handleMotionDetected;
+    const handleSoundRef = useRef(handleSoundDetected);
+    handleSoundRef.current = handleSoundDetected;
+    const showSettingsRef = useRef(showMotionSettings);
+    showSettingsRef.current = showMotionSettings;
+
+    useEffect(() => {
+        if (!videoRef.current || !isMotionEngineSupported()) return;
+        const engine = createMotionEngine(videoRef.current, DETECTION_WIDTH, DETECTION_HEIGHT, {
+            onMotion: (image, zone) => {
+                setStatus('Movimento Detectado!');
+                handleMotionRef.current(image, zone);
+            },
+            onHeatmap: setHeatmap,
+            onError: (message) => console.error("Erro no detector de movimento:", message),
+        });
+        motionEngineRef.current = engine;
+        return () => {
+            engine.dispose();
+            motionEngineRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        saveSetting('motion', motionSettings);
+    }, [motionSettings]);
+
+    useEffect(() => {
+        motionEngineRef.current?.configure(effectiveMotionSettings);
+    }, [effectiveMotionSettings]);
+
+    useEffect(() => {
+        motionEngineRef.current?.setZoneMask(zoneMask);
+    }, [zoneMask]);
+
+    useEffect(() => {
+        const queue = createAnalysisQueue(DEFAULT_ANALYSIS_QUEUE_SETTINGS, null, { onStateChange: setQueueState, onUsage: setAnalysisUsage });
+        analysisQueueRef.current = queue;
+        return () => {
+            queue.dispose();
+            analysisQueueRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        saveSetting('analyzer', analyzerSettings);
+        saveSetting('analysisQueue', queueSettings);
+        analysisQueueRef.current?.configure(queueSettings, getImageAnalyzer(analyzerSettings));
+    }, [analyzerSettings, queueSettings]);
+
+    useEffect(() => {
+        saveSetting('alertRules', alertRules);
+    }, [alertRules]);
+
+    useEffect(() => {
+        saveSetting('watchlist', watchlist);
+    }, [watchlist]);
+
+    useEffect(() => {
+        saveSetting('clips', clipSettings);
+        if (!activeStream || !clipSettings.enabled || !isClipRecordingSupported()) return;
+        const recorder = createClipRecorder(activeStream, clipSettings);
+        clipRecorderRef.current = recorder;
+        return () => {
+            recorder.dispose();
+            clipRecorderRef.current = null;
+        };
+    }, [activeStream, clipSettings]);
+
+    useEffect(() => {
+        saveSetting('audio', audioSettings);
+        audioDetectorRef.current?.configure(audioSettings);
+    }, [audioSettings]);
+
+    const hasAudioTrack = Boolean(activeStream?.getAudioTracks().length);
+    useEffect(() => {
+        if (!activeStream || !hasAudioTrack || !audioSettings.enabled || !isAudioDetectionSupported()) return;
+        let lastLevelUpdate = 0;
+        const detector = createAudioDetector(activeStream, audioSettingsRef.current, {
+            onTrigger: (trigger) => handleSoundRef.current(trigger),
+            // The level meter is only on screen with the settings open; keep re-renders down otherwise.
+            onLevel: (level) => {
+                const now = performance.now();
+                if (!showSettingsRef.current || now - lastLevelUpdate < AUDIO_LEVEL_UPDATE_MS) return;
+                lastLevelUpdate = now;
+                setAudioLevel(level);
+            },
+        });
+        audioDetectorRef.current = detector;
+        return () => {
+            detector.dispose();
+            audioDetectorRef.current = null;
+            setAudioLevel(null);
+        };
+    }, [activeStream, hasAudioTrack, audioSettings.enabled]);
+
+    useEffect(() => {
+        if (!activeStream || !hasAudioTrack || !audioSettings.enabled || !audioSettings.recordClip || !isClipRecordingSupported(AUDIO_MIME_TYPES)) return;
+        const recorder = createClipRecorder(
+            new MediaStream(activeStream.getAudioTracks()),
+            { enabled: true, preRollSeconds: AUDIO_PRE_ROLL_SECONDS, postRollSeconds: audioSettings.clipSeconds },
+            AUDIO_MIME_TYPES,
+        );
+        audioClipRecorderRef.current = recorder;
+        return () => {
+            recorder.dispose();
+            audioClipRecorderRef.current = null;
+        };
+    }, [activeStream, hasAudioTrack, audioSettings.enabled, audioSettings.recordClip, audioSettings.clipSeconds]);
 
     useEffect(() => {
         if (isMonitoring) {
@@ -306,82 +1261,261 @@ const CameraView: React.FC = () => {
 
     useEffect(() => {
         if (isMonitoring && hasCameraPermission) {
+            if (!motionEngineRef.current) {
+                setError("Seu navegador não suporta a detecção de movimento em segundo plano (Web Worker/OffscreenCanvas).");
+                return;
+            }
             setStatus('Monitorando...');
-            lastDetectionTime.current = 0;
-            animationFrameId.current = requestAnimationFrame(detectionLoop);
-        } else {
-            if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current);
-            if (!isMonitoring) setStatus('Parado');
+            motionEngineRef.current.start();
+        } else if (!isMonitoring) {
+            setStatus('Parado');
         }
-        return () => {
-            if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current);
-        };
-    }, [isMonitoring, hasCameraPermission, detectionLoop]);
+        return () => motionEngineRef.current?.stop();
+    }, [isMonitoring, hasCameraPermission]);
 
-    const toggleMonitoring = () => setIsMonitoring(prev => !prev);
-    
-    const shareableLink = peerId ? `${window.location.origin}${window.location.pathname}?view=${peerId}` : '';
+    useEffect(() => {
+        accessGateRef.current?.broadcast({ type: 'state', state: { isMonitoring, status, hasStream: Boolean(activeStream) } });
+    }, [isMonitoring, status, activeStream]);
+
+    handleViewerJoinedRef.current = async (viewerId: string) => {
+        const gate = accessGateRef.current;
+        gate?.send(viewerId, { type: 'state', state: { isMonitoring, status, hasStream: Boolean(activeStream) } });
+        const recent = events.filter(e => !e.isAnalyzing).slice(0, REMOTE_HISTORY_SIZE);
+        const remoteEvents: RemoteEvent[] = await Promise.all(recent.map(async (event) => ({
+            ...serializeEvent(event),
+            thumbnail: await createThumbnail(event.imageDataUrl).catch(() => undefined),
+        })));
+        gate?.send(viewerId, { type: 'events', events: remoteEvents });
+    };
+
+    handleViewerMessageRef.current = (viewerId: string, message: ViewerMessage) => {
+        const gate = accessGateRef.current;
+        switch (message.type) {
+            case 'arm':
+                setIsMonitoring(true);
+                break;
+            case 'disarm':
+                setIsMonitoring(false);
+                break;
+            case 'switch-camera':
+                if (!activeStream) {
+                    gate?.send(viewerId, { type: 'error', message: "A câmera está desarmada." });
+                    break;
+                }
+                switchCamera();
+                break;
+            case 'snapshot-request': {
+                const video = videoRef.current;
+                if (!video || !activeStream || video.readyState < video.HAVE_CURRENT_DATA) {
+                    gate?.send(viewerId, { type: 'error', message: "A câmera está desarmada." });
+                    break;
+                }
+                const canvas = document.createElement('canvas');
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                canvas.getContext('2d')?.drawImage(video, 0, 0);
+                gate?.send(viewerId, { type: 'snapshot', image: canvas.toDataURL('image/jpeg', 0.9), timestamp: new Date().toISOString() });
+                break;
+            }
+        }
+    };
 
-    const copyLink = () => {
-        if (!shareableLink) return;
-        navigator.clipboard.writeText(shareableLink).then(() => {
-            setIsLinkCopied(true);
-            setTimeout(() => setIsLinkCopied(false), 2000);
+    // Cycles through the attached cameras, or flips front/back when only one is listed.
+    const switchCamera = async () => {
+        const { video } = await listDevices().catch(() => ({ video: [] as MediaDeviceInfo[] }));
+        const currentId = mediaStreamRef.current?.getVideoTracks()[0]?.getSettings().deviceId;
+        setCameraSettings(prev => {
+            if (video.length < 2) {
+                return { ...prev, videoDeviceId: '', facingMode: prev.facingMode === 'environment' ? 'user' : 'environment' };
+            }
+            const next = video[(video.findIndex(d => d.deviceId === currentId) + 1) % video.length];
+            return { ...prev, videoDeviceId: next.deviceId, torch: false, zoom: null, focusMode: '', focusDistance: null };
         });
     };
 
+    const toggleMonitoring = () => setIsMonitoring(prev => !prev);
+
+    const analyzer = getImageAnalyzer(analyzerSettings);
+
+    const visibleEvents = filterEvents(events, filter);
+    const exportEvents = selectedIds ? events.filter(e => selectedIds.includes(e.id)) : visibleEvents;
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev && (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+    };
+
+    // Links from the assistant's answers; the filter is cleared if it hides the event.
+    const showEvent = (id: string) => {
+        if (!visibleEvents.some(e => e.id === id)) setFilter(EMPTY_FILTER);
+        setHighlightedId(id);
+    };
+
+    useEffect(() => {
+        if (!highlightedId) return;
+        document.getElementById(`evento-${highlightedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [highlightedId]);
+
+    const addImportedEvents = (imported: DetectionEvent[]) => {
+        setEvents(prev => [...prev, ...imported].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+    };
+    
     return (
         <div className="min-h-screen bg-gray-900 flex flex-col items-center p-4 md:p-6 lg:p-8">
             <header className="w-full max-w-5xl mb-4 text-center">
                 <h1 className="text-3xl md:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300">Vigilância IA</h1>
                 <p className="text-gray-400 mt-1">Sua câmera de segurança inteligente</p>
+                <a href={`${window.location.origin}${window.location.pathname}?dashboard`} className="text-blue-400 hover:underline text-sm mt-2 inline-flex items-center gap-1">
+                    <LayoutGrid className="w-4 h-4" />Painel de câmeras
+                </a>
             </header>
 
             <main className="w-full max-w-5xl flex-grow flex flex-col items-center gap-6">
                 <div className="relative aspect-video w-full bg-black rounded-xl shadow-2xl overflow-hidden border-2 border-gray-700">
-                    <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover"></video>
+                    <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" onLoadedMetadata={(e) => setFrameSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}></video>
+                    {isMonitoring && hasCameraPermission && (
+                        <>
+                            <ZoneEditor
+                                zones={zones}
+                                onChange={updateZones}
+                                frameWidth={frameSize.width}
+                                frameHeight={frameSize.height}
+                                isEditing={isEditingZones}
+                                onClose={() => setIsEditingZones(false)}
+                            />
+                            {!isEditingZones && (
+                                <button onClick={() => setIsEditingZones(true)} className="absolute top-3 left-3 flex items-center gap-2 p-2 rounded-lg bg-gray-800/50 backdrop-blur-sm text-gray-200 hover:bg-gray-700/70">
+                                    <Crop className="w-5 h-5" /><span className="font-medium">Zonas</span>
+                                </button>
+                            )}
+                        </>
+                    )}
                     {!hasCameraPermission && isMonitoring && (
                          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-center p-4">
                              {error ? <><AlertTriangle className="w-12 h-12 text-red-500 mb-4" /><p className="text-red-300">{error}</p></> : <><Camera className="w-12 h-12 text-gray-400 mb-4" /><p className="text-gray-300">Aguardando permissão da câmera...</p></>}
                         </div>
                     )}
-                    <div className="absolute top-3 right-3"><StatusDisplay status={status} /></div>
+                    {isMonitoring && motionSettings.showHeatmap && heatmap && (
+                        <MotionHeatmapOverlay heatmap={heatmap} frameWidth={frameSize.width} frameHeight={frameSize.height} />
+                    )}
+                    <div className="absolute top-3 right-3 flex flex-col items-end gap-2">
+                        <StatusDisplay status={status} />
+                        <ProfileBadge profile={activeProfile} nextChange={nextProfileChange} />
+                    </div>
                 </div>
 
                 <div className="w-full flex justify-center">
                     <button onClick={toggleMonitoring} className={`w-full max-w-xs md:px-10 py-4 text-lg font-bold rounded-full transition-all duration-300 flex items-center justify-center gap-3 shadow-lg focus:outline-none focus:ring-4 ${isMonitoring ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500/50 text-white' : 'bg-green-600 hover:bg-green-700 focus:ring-green-500/50 text-white'}`}>
                         <Power className="w-6 h-6" />{isMonitoring ? 'Parar Monitoramento' : 'Iniciar Monitoramento'}
                     </button>
+                    <button onClick={() => setShowMotionSettings(prev => !prev)} title="Configurações de detecção" className={`ml-3 p-4 rounded-full shadow-lg transition-colors ${showMotionSettings ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}>
+                        <SlidersHorizontal className="w-6 h-6" />
+                    </button>
                 </div>
 
-                {isMonitoring && peerId && (
-                    <div className="w-full max-w-5xl">
-                        <div className="bg-gray-800 p-4 rounded-lg w-full text-center shadow-md">
-                            <h3 className="text-lg font-semibold mb-2 text-gray-200">Compartilhar Transmissão ao Vivo</h3>
-                            <p className="text-sm text-gray-400 mb-3">Qualquer pessoa com este link pode ver sua câmera.</p>
-                            <div className="flex flex-col sm:flex-row items-center justify-center gap-2">
-                                <input type="text" readOnly value={shareableLink} className="w-full sm:w-auto flex-grow bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none" onClick={(e) => (e.target as HTMLInputElement).select()} />
-                                <button onClick={copyLink} className="w-full sm:w-auto px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md transition-colors flex items-center justify-center gap-2">
-                                    {isLinkCopied ? <CheckCircle className="w-5 h-5" /> : <Clipboard className="w-5 h-5" />}
-                                    {isLinkCopied ? 'Copiado!' : 'Copiar Link'}
-                                </button>
-                            </div>
-                        </div>
+                {showMotionSettings && (
+                    <div className="bg-gray-800 p-4 rounded-lg w-full shadow-md">
+                        <h3 className="text-lg font-semibold mb-3 text-gray-200">Perfis e Agendamento</h3>
+                        <ArmingProfilesPanel
+                            settings={armingSettings}
+                            onChange={setArmingSettings}
+                            activeProfileId={activeProfile.id}
+                            onActivate={applyProfile}
+                            motionSettings={motionSettings}
+                            zones={zones}
+                            rules={alertRules}
+                        />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Detecção de Movimento <span className="text-sm font-normal text-gray-400">(perfil {activeProfile.name})</span></h3>
+                        <MotionSettingsPanel settings={effectiveMotionSettings} onChange={updateMotionSettings} />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Detecção de Som</h3>
+                        <AudioSettingsPanel
+                            settings={audioSettings}
+                            onChange={setAudioSettings}
+                            isSupported={isAudioDetectionSupported()}
+                            isMicrophoneEnabled={cameraSettings.audioEnabled}
+                            onEnableMicrophone={() => setCameraSettings(prev => ({ ...prev, audioEnabled: true }))}
+                            level={audioLevel}
+                        />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Câmera e Microfone</h3>
+                        <CameraSettingsPanel settings={cameraSettings} onChange={setCameraSettings} controls={trackControls} isStreaming={Boolean(activeStream)} />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Clipes de Vídeo</h3>
+                        <ClipSettingsPanel settings={clipSettings} onChange={setClipSettings} isSupported={isClipRecordingSupported()} />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Análise por IA</h3>
+                        <AnalyzerSettingsPanel settings={analyzerSettings} onChange={setAnalyzerSettings} />
+                        {analyzer && (
+                            <>
+                                <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Fila e Consumo da IA</h3>
+                                <AnalysisQueuePanel settings={queueSettings} onChange={setQueueSettings} queueState={queueState} usage={analysisUsage} isRemote={analyzer.isRemote} />
+                            </>
+                        )}
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Lista de Referências</h3>
+                        <WatchlistPanel entries={watchlist} onChange={setWatchlist} isSupported={analyzerSettings.provider === 'gemini' || analyzerSettings.provider === 'openai'} />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Regras de Alerta</h3>
+                        <AlertRulesPanel rules={alertRules} onChange={setAlertRules} />
+                        <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-200">Rede</h3>
+                        <NetworkSettingsPanel settings={networkSettings} onChange={setNetworkSettings} />
                     </div>
                 )}
+
+                {isMonitoring && peerId && (
+                    <AccessPanel
+                        peerId={peerId}
+                        network={networkSettings}
+                        settings={accessSettings}
+                        onChange={setAccessSettings}
+                        viewers={viewers}
+                        onKick={(viewerId) => accessGateRef.current?.kick(viewerId)}
+                        onRevokeInvite={revokeInvite}
+                    />
+                )}
+                {error && hasCameraPermission && <div className="w-full max-w-5xl p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg text-center">{error}</div>}
                 {peerError && <div className="w-full max-w-5xl mt-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg text-center">{peerError}</div>}
                 
-                {events.length > 0 && (
-                     <div className="w-full">
-                        <h2 className="text-2xl font-semibold mb-4 border-b-2 border-gray-700 pb-2">Registro de Eventos</h2>
+                <div className="w-full">
+                    <h2 className="text-2xl font-semibold mb-4 border-b-2 border-gray-700 pb-2">Registro de Eventos</h2>
+                    {events.length > 0 && (
+                        <EventAssistant events={events} analyzer={analyzer} queue={analysisQueueRef.current} onSelectEvent={showEvent} />
+                    )}
+                    {events.length > 0 && (
+                        <EventLogControls
+                            filter={filter}
+                            onFilterChange={setFilter}
+                            retention={retention}
+                            onRetentionChange={setRetention}
+                            totalCount={events.length}
+                            visibleCount={visibleEvents.length}
+                        />
+                    )}
+                    <EventArchiveBar
+                        events={exportEvents}
+                        isSelecting={selectedIds !== null}
+                        selectedCount={selectedIds?.length ?? 0}
+                        onToggleSelecting={() => setSelectedIds(prev => prev === null ? [] : null)}
+                        onSelectAll={() => setSelectedIds(visibleEvents.map(e => e.id))}
+                        onImported={addImportedEvents}
+                        retentionDays={retention.maxDays}
+                    />
+                    {events.length === 0 ? (
+                        <p className="text-center text-gray-500 py-8">Nenhum evento registrado.</p>
+                    ) : visibleEvents.length > 0 ? (
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 pb-24 md:pb-0">
-                            {events.map(event => <EventCard key={event.id} event={event} />)}
+                            {visibleEvents.map(event => (
+                                <EventCard
+                                    key={event.id}
+                                    event={event}
+                                    isSelected={selectedIds?.includes(event.id)}
+                                    onToggleSelect={selectedIds ? () => toggleSelected(event.id) : undefined}
+                                    onReanalyze={analyzer && !event.isAnalyzing ? () => reanalyzeEvent(event) : undefined}
+                                    isHighlighted={event.id === highlightedId}
+                                />
+                            ))}
                         </div>
-                    </div>
-                )}
+                    ) : (
+                        <p className="text-center text-gray-500 py-8">Nenhum evento corresponde aos filtros.</p>
+                    )}
+                </div>
             </main>
-            <canvas ref={canvasRef} width="320" height="240" className="hidden"></canvas>
-            <canvas ref={oldCanvasRef} width="320" height="240" className="hidden"></canvas>
         </div>
     );
 };
@@ -390,12 +1524,20 @@ const CameraView: React.FC = () => {
 // Main App component that acts as a router
 const App: React.FC = () => {
     const [viewPeerId, setViewPeerId] = useState<string | null>(null);
+    const [viewToken, setViewToken] = useState<string | null>(null);
+    const [viewNetwork, setViewNetwork] = useState<NetworkSettings>(DEFAULT_NETWORK_SETTINGS);
+    const [isDashboard, setIsDashboard] = useState(false);
     const [isReady, setIsReady] = useState(false);
+    const { isUpdateAvailable, applyUpdate } = useServiceWorker();
+    const [isUpdateDismissed, setIsUpdateDismissed] = useState(false);
 
     useEffect(() => {
         const urlParams = new URLSearchParams(window.location.search);
         const peerId = urlParams.get('view');
         setViewPeerId(peerId);
+        setViewToken(urlParams.get('token'));
+        setViewNetwork(decodeNetworkParam(urlParams.get('net')) ?? loadNetworkSettings());
+        setIsDashboard(urlParams.has('dashboard'));
         setIsReady(true);
     }, []);
 
@@ -403,7 +1545,12 @@ const App: React.FC = () => {
         return <div className="min-h-screen bg-gray-900 flex items-center justify-center"><Loader className="w-12 h-12 animate-spin text-blue-400" /></div>;
     }
     
-    return viewPeerId ? <Viewer peerId={viewPeerId} /> : <CameraView />;
+    return (
+        <>
+            {isDashboard ? <Dashboard /> : viewPeerId ? <Viewer peerId={viewPeerId} token={viewToken} network={viewNetwork} /> : <CameraView />}
+            {isUpdateAvailable && !isUpdateDismissed && <UpdateBanner onUpdate={applyUpdate} onDismiss={() => setIsUpdateDismissed(true)} />}
+        </>
+    );
 };
 
 export default App;
@@ -0,0 +1,129 @@
+
+import React, { useState } from 'react';
+import { CheckCircle, Clipboard, Eye, KeyRound, Link, Plus, UserX } from 'lucide-react';
+import type { AccessSettings, ConnectedViewer, InviteLink, NetworkSettings } from '../types';
+import { createInvite, isInviteActive } from '../services/inviteTokens';
+import { buildViewerLink } from '../services/peerConfig';
+
+interface AccessPanelProps {
+    peerId: string;
+    network: NetworkSettings;
+    settings: AccessSettings;
+    onChange: (settings: AccessSettings) => void;
+    viewers: ConnectedViewer[];
+    onKick: (peerId: string) => void;
+    onRevokeInvite: (inviteId: string) => void;
+}
+
+const VALIDITY_OPTIONS: { label: string; hours: number | null }[] = [
+    { label: '1 hora', hours: 1 },
+    { label: '24 horas', hours: 24 },
+    { label: '7 dias', hours: 24 * 7 },
+    { label: '30 dias', hours: 24 * 30 },
+    { label: 'Sem validade', hours: null },
+];
+
+const inputClass = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const AccessPanel: React.FC<AccessPanelProps> = ({ peerId, network, settings, onChange, viewers, onKick, onRevokeInvite }) => {
+    const [inviteLabel, setInviteLabel] = useState('');
+    const [validity, setValidity] = useState(1);
+    const [canControl, setCanControl] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [passphraseDraft, setPassphraseDraft] = useState(settings.passphrase);
+
+    const baseLink = buildViewerLink(peerId, network);
+    const inviteLink = (invite: InviteLink) => buildViewerLink(peerId, network, invite.token);
+
+    const copy = (id: string, text: string) => {
+        navigator.clipboard.writeText(text).then(() => {
+            setCopiedId(id);
+            setTimeout(() => setCopiedId(null), 2000);
+        });
+    };
+
+    const addInvite = async () => {
+        const invite = await createInvite(settings.secret, inviteLabel.trim() || `Convite ${settings.invites.length + 1}`, VALIDITY_OPTIONS[validity].hours, canControl);
+        onChange({ ...settings, invites: [invite, ...settings.invites] });
+        setInviteLabel('');
+        setCanControl(false);
+        copy(invite.id, inviteLink(invite));
+    };
+
+    const activeInvites = settings.invites.filter(invite => isInviteActive(invite));
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-lg w-full shadow-md flex flex-col gap-4 text-sm text-gray-300">
+            <h3 className="text-lg font-semibold text-gray-200 text-center">Compartilhar Transmissão ao Vivo</h3>
+            <p className="text-gray-400 text-center">Só quem tiver um convite válido ou a senha da câmera pode assistir.</p>
+
+            <div className="flex flex-col gap-2">
+                <span className="font-medium text-gray-200 flex items-center gap-2"><Link className="w-4 h-4" />Convites</span>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <input type="text" placeholder="Para quem? (ex.: Vizinho)" value={inviteLabel} onChange={(e) => setInviteLabel(e.target.value)} className={`${inputClass} flex-grow`} />
+                    <select value={validity} onChange={(e) => setValidity(Number(e.target.value))} className={inputClass}>
+                        {VALIDITY_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 whitespace-nowrap" title="Permite armar, desarmar e trocar a câmera">
+                        <input type="checkbox" checked={canControl} onChange={(e) => setCanControl(e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                        Controle
+                    </label>
+                    <button onClick={addInvite} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md transition-colors flex items-center justify-center gap-2">
+                        <Plus className="w-4 h-4" />Criar e copiar
+                    </button>
+                </div>
+                {activeInvites.length > 0 && (
+                    <ul className="flex flex-col gap-1">
+                        {activeInvites.map(invite => (
+                            <li key={invite.id} className="flex items-center gap-2 bg-gray-900/50 rounded-md px-3 py-2">
+                                <span className="flex-grow truncate text-gray-200">{invite.label}</span>
+                                <span className="text-xs text-gray-500">{invite.canControl ? 'assistir e controlar' : 'só assistir'}</span>
+                                <span className="text-xs text-gray-500">{invite.expiresAt ? `expira ${new Date(invite.expiresAt).toLocaleString('pt-BR')}` : 'sem validade'}</span>
+                                <button onClick={() => copy(invite.id, inviteLink(invite))} title="Copiar link" className="p-1 text-gray-400 hover:text-white">
+                                    {copiedId === invite.id ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Clipboard className="w-4 h-4" />}
+                                </button>
+                                <button onClick={() => onRevokeInvite(invite.id)} className="px-2 py-0.5 text-xs rounded bg-red-900/60 text-red-300 hover:bg-red-800">Revogar</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className="font-medium text-gray-200 flex items-center gap-2"><KeyRound className="w-4 h-4" />Senha da câmera</span>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <input type="password" placeholder="Vazio desativa o acesso por senha" value={passphraseDraft} onChange={(e) => setPassphraseDraft(e.target.value)} className={`${inputClass} flex-grow`} />
+                    <button onClick={() => onChange({ ...settings, passphrase: passphraseDraft })} disabled={passphraseDraft === settings.passphrase} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 text-white font-semibold rounded-md transition-colors">
+                        Salvar
+                    </button>
+                    {settings.passphrase && (
+                        <button onClick={() => copy('passphrase', baseLink)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md flex items-center justify-center gap-2">
+                            {copiedId === 'passphrase' ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Clipboard className="w-4 h-4" />}
+                            Link com senha
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className="font-medium text-gray-200 flex items-center gap-2"><Eye className="w-4 h-4" />Conectados agora ({viewers.length})</span>
+                {viewers.length === 0 ? (
+                    <p className="text-gray-500">Ninguém está assistindo.</p>
+                ) : (
+                    <ul className="flex flex-col gap-1">
+                        {viewers.map(viewer => (
+                            <li key={viewer.peerId} className="flex items-center gap-2 bg-gray-900/50 rounded-md px-3 py-2">
+                                <span className={`w-2 h-2 rounded-full ${viewer.isWatching ? 'bg-green-400' : 'bg-gray-500'}`} />
+                                <span className="flex-grow truncate text-gray-200">{viewer.via}</span>
+                                <span className="text-xs text-gray-500">desde {viewer.connectedAt.toLocaleTimeString('pt-BR')}</span>
+                                <button onClick={() => onKick(viewer.peerId)} title="Desconectar" className="p-1 text-gray-400 hover:text-red-400"><UserX className="w-4 h-4" /></button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AccessPanel;
@@ -0,0 +1,142 @@
+
+import React, { useState } from 'react';
+import { Bell, ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import type { AlertRule, ObjectClass, ThreatLevel } from '../types';
+import { createAlertRule } from '../services/alertRules';
+import { isNotificationSupported, requestNotificationPermission } from '../services/alertActions';
+import { OBJECT_CLASS_LABELS, THREAT_LEVEL_LABELS } from './analysisLabels';
+
+interface AlertRulesPanelProps {
+    rules: AlertRule[];
+    onChange: (rules: AlertRule[]) => void;
+}
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ rules, onChange }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [permission, setPermission] = useState<NotificationPermission | null>(isNotificationSupported() ? Notification.permission : null);
+
+    const updateRule = (id: string, changes: Partial<AlertRule>) => {
+        onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+    };
+
+    const addRule = () => {
+        const rule = createAlertRule();
+        onChange([...rules, rule]);
+        setExpandedId(rule.id);
+    };
+
+    const toggleClass = (rule: AlertRule, objectClass: ObjectClass) => {
+        const classes = rule.classes.includes(objectClass) ? rule.classes.filter(c => c !== objectClass) : [...rule.classes, objectClass];
+        updateRule(rule.id, { classes });
+    };
+
+    const needsPermission = rules.some(rule => rule.enabled && rule.notify) && permission !== null && permission !== 'granted';
+
+    return (
+        <div className="flex flex-col gap-3 text-sm text-gray-300">
+            {needsPermission && (
+                <div className="flex flex-wrap items-center gap-3 p-3 rounded-md bg-yellow-900/40 border border-yellow-700 text-yellow-200">
+                    <Bell className="w-4 h-4" />
+                    {permission === 'denied' ? 'As notificações foram bloqueadas nas configurações do navegador.' : 'Permita as notificações para receber alertas.'}
+                    {permission === 'default' && (
+                        <button onClick={() => requestNotificationPermission().then(setPermission)} className="ml-auto px-3 py-1 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md">Permitir</button>
+                    )}
+                </div>
+            )}
+
+            {rules.length === 0 && <p className="text-gray-500">Nenhuma regra. Os eventos só aparecem no registro.</p>}
+
+            {rules.map(rule => {
+                const isExpanded = expandedId === rule.id;
+                return (
+                    <div key={rule.id} className="bg-gray-900/50 border border-gray-700 rounded-md">
+                        <div className="flex items-center gap-2 p-2">
+                            <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} title="Ativa" className="accent-blue-500 w-4 h-4" />
+                            <button onClick={() => setExpandedId(isExpanded ? null : rule.id)} className="flex-grow flex items-center justify-between text-left font-medium text-gray-200">
+                                {rule.name || 'Sem nome'}
+                                {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} title="Excluir" className="p-1 text-gray-400 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+                        </div>
+
+                        {isExpanded && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 border-t border-gray-700">
+                                <label className="flex flex-col gap-1 sm:col-span-2">
+                                    Nome
+                                    <input type="text" value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} className={inputClass} />
+                                </label>
+                                <label className="flex flex-col gap-1 sm:col-span-2">
+                                    A análise menciona (separe por vírgulas, vazio para qualquer)
+                                    <input type="text" value={rule.keywords} placeholder="pessoa, homem, mulher" onChange={(e) => updateRule(rule.id, { keywords: e.target.value })} className={inputClass} />
+                                </label>
+                                <div className="flex flex-col gap-1 sm:col-span-2">
+                                    Objetos (nenhum selecionado para qualquer)
+                                    <div className="flex flex-wrap gap-2">
+                                        {(Object.keys(OBJECT_CLASS_LABELS) as ObjectClass[]).map(objectClass => (
+                                            <label key={objectClass} className="flex items-center gap-1">
+                                                <input type="checkbox" checked={rule.classes.includes(objectClass)} onChange={() => toggleClass(rule, objectClass)} className="accent-blue-500" />
+                                                {OBJECT_CLASS_LABELS[objectClass]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                                <label className="flex flex-col gap-1">
+                                    Ameaça mínima
+                                    <select value={rule.minThreatLevel} onChange={(e) => updateRule(rule.id, { minThreatLevel: e.target.value as ThreatLevel })} className={inputClass}>
+                                        {(Object.keys(THREAT_LEVEL_LABELS) as ThreatLevel[]).map(level => (
+                                            <option key={level} value={level}>{level === 'none' ? 'Qualquer' : THREAT_LEVEL_LABELS[level]}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    Intervalo entre alertas (s)
+                                    <input type="number" min="0" value={rule.cooldownSeconds} onChange={(e) => updateRule(rule.id, { cooldownSeconds: Math.max(0, Number(e.target.value) || 0) })} className={inputClass} />
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    Das (vazio para o dia todo)
+                                    <input type="time" value={rule.startTime} onChange={(e) => updateRule(rule.id, { startTime: e.target.value })} className={inputClass} />
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    Até
+                                    <input type="time" value={rule.endTime} onChange={(e) => updateRule(rule.id, { endTime: e.target.value })} className={inputClass} />
+                                </label>
+                                <div className="flex flex-col gap-2 sm:col-span-2">
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={!!rule.ignoreKnown} onChange={(e) => updateRule(rule.id, { ignoreKnown: e.target.checked })} className="accent-blue-500 w-4 h-4" />
+                                        Ignorar eventos só com conhecidos da lista de referências
+                                    </label>
+                                    <label className={`flex items-center gap-2 ${rule.minThreatLevel === 'none' ? 'opacity-50' : ''}`} title={rule.minThreatLevel === 'none' ? 'Escolha uma ameaça mínima para usar esta opção' : undefined}>
+                                        <input type="checkbox" checked={!!rule.escalateUnknown} disabled={rule.minThreatLevel === 'none'} onChange={(e) => updateRule(rule.id, { escalateUnknown: e.target.checked })} className="accent-blue-500 w-4 h-4" />
+                                        Desconhecidos contam um nível de ameaça acima (requer ameaça mínima)
+                                    </label>
+                                </div>
+                                <div className="flex flex-wrap gap-4 sm:col-span-2">
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={rule.notify} onChange={(e) => updateRule(rule.id, { notify: e.target.checked })} className="accent-blue-500 w-4 h-4" />
+                                        Notificação
+                                    </label>
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={rule.sound} onChange={(e) => updateRule(rule.id, { sound: e.target.checked })} className="accent-blue-500 w-4 h-4" />
+                                        Alarme sonoro
+                                    </label>
+                                </div>
+                                <label className="flex flex-col gap-1 sm:col-span-2">
+                                    Webhook (POST com o evento e a imagem em JSON, vazio para desativar)
+                                    <input type="url" value={rule.webhookUrl} placeholder="https://exemplo.com/webhook" onChange={(e) => updateRule(rule.id, { webhookUrl: e.target.value })} className={inputClass} />
+                                </label>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <button onClick={addRule} className="self-start px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md transition-colors flex items-center gap-2">
+                <Plus className="w-4 h-4" />Adicionar regra
+            </button>
+        </div>
+    );
+};
+
+export default AlertRulesPanel;
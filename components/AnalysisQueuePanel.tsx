@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { Loader } from 'lucide-react';
+import type { AnalysisQueueSettings, AnalysisUsageDay } from '../types';
+import type { AnalysisQueueState } from '../services/analysisQueue';
+import { dayKey, estimateCost, getDayUsage } from '../services/analysisUsage';
+import Slider from './Slider';
+
+interface AnalysisQueuePanelProps {
+    settings: AnalysisQueueSettings;
+    onChange: (settings: AnalysisQueueSettings) => void;
+    queueState: AnalysisQueueState;
+    usage: AnalysisUsageDay[];
+    isRemote: boolean; // budgets and usage don't apply to the local detector
+}
+
+const USAGE_DAYS = 7;
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatCost = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'USD', maximumFractionDigits: 4 });
+
+const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({ settings, onChange, queueState, usage, isRemote }) => {
+    const update = <K extends keyof AnalysisQueueSettings>(field: K, value: AnalysisQueueSettings[K]) => onChange({ ...settings, [field]: value });
+    const numberInput = (field: keyof AnalysisQueueSettings, label: string, step = 1) => (
+        <label className="flex flex-col gap-1">
+            {label}
+            <input type="number" min={0} step={step} value={settings[field]} onChange={(e) => update(field, Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+        </label>
+    );
+
+    const days = Array.from({ length: USAGE_DAYS }, (_, i) => {
+        const date = new Date();
+        date.setDate(date.getDate() - i);
+        return getDayUsage(usage, dayKey(date));
+    });
+    const today = days[0];
+
+    return (
+        <div className="flex flex-col gap-4 text-sm text-gray-300">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Slider label="Análises simultâneas" value={settings.concurrency} min={1} max={5} unit="" onChange={(v) => update('concurrency', v)} />
+                <Slider label="Tentativas extras em caso de falha" value={settings.maxRetries} min={0} max={10} unit="" onChange={(v) => update('maxRetries', v)} />
+                <Slider label="Quadros por evento" value={settings.batchFrames} min={1} max={4} unit="" onChange={(v) => update('batchFrames', v)} />
+                <p className="text-gray-500 self-center">Com mais de um quadro, os seguintes são capturados a cada segundo e enviados juntos em uma só requisição.</p>
+                {isRemote && (
+                    <>
+                        {numberInput('maxPerMinute', 'Máximo por minuto (0 = sem limite)')}
+                        {numberInput('maxPerDay', 'Máximo por dia (0 = sem limite)')}
+                        {numberInput('inputPricePerMillion', 'Preço por 1M tokens de entrada (US$)', 0.01)}
+                        {numberInput('outputPricePerMillion', 'Preço por 1M tokens de saída (US$)', 0.01)}
+                    </>
+                )}
+            </div>
+
+            {(queueState.pending > 0 || queueState.running > 0) && (
+                <p className="flex items-center gap-2 text-blue-400">
+                    <Loader className="w-4 h-4 animate-spin" />
+                    {queueState.running} em andamento, {queueState.pending} na fila{queueState.waitingReason && ` — ${queueState.waitingReason}`}
+                </p>
+            )}
+
+            {isRemote && (
+                <div className="overflow-x-auto">
+                    <p className="mb-2">
+                        Hoje: {today.requests}{settings.maxPerDay > 0 && ` de ${settings.maxPerDay}`} requisições
+                    </p>
+                    <table className="w-full text-left">
+                        <thead className="text-gray-400">
+                            <tr>
+                                <th className="py-1 pr-4 font-medium">Dia</th>
+                                <th className="py-1 pr-4 font-medium">Requisições</th>
+                                <th className="py-1 pr-4 font-medium">Falhas</th>
+                                <th className="py-1 pr-4 font-medium">Tokens (entrada / saída)</th>
+                                <th className="py-1 font-medium">Custo estimado</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {days.map(day => (
+                                <tr key={day.date} className="border-t border-gray-700">
+                                    <td className="py-1 pr-4">{new Date(`${day.date}T00:00:00`).toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit' })}</td>
+                                    <td className="py-1 pr-4">{day.requests}</td>
+                                    <td className="py-1 pr-4">{day.failures}</td>
+                                    <td className="py-1 pr-4">{day.inputTokens.toLocaleString('pt-BR')} / {day.outputTokens.toLocaleString('pt-BR')}</td>
+                                    <td className="py-1">{formatCost(estimateCost(day, settings))}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {settings.inputPricePerMillion === 0 && settings.outputPricePerMillion === 0 && (
+                        <p className="text-gray-500 mt-2">Informe os preços do modelo para estimar o custo.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnalysisQueuePanel;
@@ -0,0 +1,86 @@
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { AnalyzerProvider, AnalyzerSettings } from '../types';
+import { getAnalyzerConfigError } from '../services/imageAnalyzer';
+import { getDefaultGeminiApiKey } from '../services/geminiService';
+import Slider from './Slider';
+
+interface AnalyzerSettingsPanelProps {
+    settings: AnalyzerSettings;
+    onChange: (settings: AnalyzerSettings) => void;
+}
+
+const PROVIDER_LABELS: Record<AnalyzerProvider, string> = {
+    none: 'Desativada',
+    gemini: 'Google Gemini',
+    openai: 'Servidor compatível com OpenAI (Ollama, LM Studio...)',
+    local: 'Detector local no navegador (offline)',
+};
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const AnalyzerSettingsPanel: React.FC<AnalyzerSettingsPanelProps> = ({ settings, onChange }) => {
+    const update = <K extends keyof AnalyzerSettings>(field: K, value: AnalyzerSettings[K]) => onChange({ ...settings, [field]: value });
+    const configError = settings.provider !== 'none' ? getAnalyzerConfigError(settings) : null;
+
+    return (
+        <div className="flex flex-col gap-4 text-sm text-gray-300">
+            <label className="flex flex-col gap-1">
+                Provedor de análise
+                <select value={settings.provider} onChange={(e) => update('provider', e.target.value as AnalyzerProvider)} className={inputClass}>
+                    {(Object.keys(PROVIDER_LABELS) as AnalyzerProvider[]).map(provider => (
+                        <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+                    ))}
+                </select>
+            </label>
+
+            {settings.provider === 'none' && (
+                <p className="text-gray-500">Os eventos serão registrados sem análise por IA.</p>
+            )}
+
+            {settings.provider === 'gemini' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="flex flex-col gap-1">
+                        Chave da API
+                        <input type="password" value={settings.geminiApiKey} placeholder={getDefaultGeminiApiKey() ? 'Usando a chave do ambiente' : ''} onChange={(e) => update('geminiApiKey', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Modelo
+                        <input type="text" value={settings.geminiModel} onChange={(e) => update('geminiModel', e.target.value)} className={inputClass} />
+                    </label>
+                </div>
+            )}
+
+            {settings.provider === 'openai' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="flex flex-col gap-1 sm:col-span-2">
+                        Endereço base da API
+                        <input type="url" value={settings.openAiBaseUrl} placeholder="http://localhost:11434/v1" onChange={(e) => update('openAiBaseUrl', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Modelo
+                        <input type="text" value={settings.openAiModel} placeholder="llava" onChange={(e) => update('openAiModel', e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Chave da API (opcional)
+                        <input type="password" value={settings.openAiApiKey} onChange={(e) => update('openAiApiKey', e.target.value)} className={inputClass} />
+                    </label>
+                </div>
+            )}
+
+            {settings.provider === 'local' && (
+                <>
+                    <p className="text-gray-500">Reconhece pessoas, veículos, animais e volumes sem enviar imagens para a internet. O modelo é baixado no primeiro uso.</p>
+                    <Slider label="Confiança mínima" value={Math.round(settings.localMinScore * 100)} min={10} max={95} step={5} unit="%" onChange={(v) => update('localMinScore', v / 100)} />
+                </>
+            )}
+
+            {configError && (
+                <p className="flex items-center gap-2 text-yellow-400"><AlertTriangle className="w-4 h-4" />{configError}</p>
+            )}
+        </div>
+    );
+};
+
+export default AnalyzerSettingsPanel;
@@ -0,0 +1,162 @@
+
+import React, { useState } from 'react';
+import { CalendarClock, ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import type { AlertRule, ArmingProfile, ArmingSettings, MotionSettings, MotionZone, ScheduleEntry } from '../types';
+import { createProfile, createScheduleEntry, DAY_LABELS } from '../services/armingProfiles';
+import Slider from './Slider';
+
+interface ArmingProfilesPanelProps {
+    settings: ArmingSettings;
+    onChange: (settings: ArmingSettings) => void;
+    activeProfileId: string;
+    onActivate: (profileId: string) => void;
+    motionSettings: MotionSettings;
+    zones: MotionZone[];
+    rules: AlertRule[];
+}
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+const ArmingProfilesPanel: React.FC<ArmingProfilesPanelProps> = ({ settings, onChange, activeProfileId, onActivate, motionSettings, zones, rules }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const updateProfile = (id: string, changes: Partial<ArmingProfile>) => {
+        onChange({ ...settings, profiles: settings.profiles.map(p => p.id === id ? { ...p, ...changes } : p) });
+    };
+
+    const addProfile = () => {
+        const profile = createProfile(`Perfil ${settings.profiles.length + 1}`, motionSettings);
+        onChange({ ...settings, profiles: [...settings.profiles, profile] });
+        setExpandedId(profile.id);
+    };
+
+    const removeProfile = (id: string) => {
+        onChange({
+            ...settings,
+            profiles: settings.profiles.filter(p => p.id !== id),
+            schedule: settings.schedule.filter(e => e.profileId !== id),
+        });
+    };
+
+    const updateEntry = (id: string, changes: Partial<ScheduleEntry>) => {
+        onChange({ ...settings, schedule: settings.schedule.map(e => e.id === id ? { ...e, ...changes } : e) });
+    };
+
+    const toggleDay = (entry: ScheduleEntry, day: number) => {
+        const days = entry.days.includes(day) ? entry.days.filter(d => d !== day) : [...entry.days, day].sort();
+        updateEntry(entry.id, { days });
+    };
+
+    return (
+        <div className="flex flex-col gap-3 text-sm text-gray-300">
+            {settings.profiles.map(profile => {
+                const isExpanded = expandedId === profile.id;
+                const isActive = profile.id === activeProfileId;
+                const isDefault = profile.id === settings.defaultProfileId;
+                return (
+                    <div key={profile.id} className={`bg-gray-900/50 border rounded-md ${isActive ? 'border-blue-500' : 'border-gray-700'}`}>
+                        <div className="flex items-center gap-2 p-2">
+                            <button onClick={() => onActivate(profile.id)} disabled={isActive} className={`px-3 py-1 rounded-md text-xs font-semibold ${isActive ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}>
+                                {isActive ? 'Ativo' : 'Ativar'}
+                            </button>
+                            <button onClick={() => setExpandedId(isExpanded ? null : profile.id)} className="flex-grow flex items-center justify-between text-left font-medium text-gray-200">
+                                <span>{profile.name || 'Sem nome'} <span className="text-xs text-gray-500">{profile.armed ? 'armado' : 'desarmado'}</span></span>
+                                {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => removeProfile(profile.id)} disabled={isDefault || isActive} title={isDefault ? 'O perfil padrão não pode ser excluído' : 'Excluir'} className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-400"><Trash2 className="w-4 h-4" /></button>
+                        </div>
+
+                        {isExpanded && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 border-t border-gray-700">
+                                <label className="flex flex-col gap-1">
+                                    Nome
+                                    <input type="text" value={profile.name} onChange={(e) => updateProfile(profile.id, { name: e.target.value })} className={inputClass} />
+                                </label>
+                                <label className="flex items-center gap-2 sm:self-end sm:pb-2">
+                                    <input type="checkbox" checked={profile.armed} onChange={(e) => updateProfile(profile.id, { armed: e.target.checked })} className="accent-blue-500 w-4 h-4" />
+                                    Monitorar enquanto este perfil estiver ativo
+                                </label>
+                                <Slider label="Sensibilidade" value={profile.motion.sensitivity} min={1} max={100} unit="" onChange={(v) => updateProfile(profile.id, { motion: { ...profile.motion, sensitivity: v } })} />
+                                <Slider label="Área mínima alterada" value={profile.motion.minAreaPercent} min={0.5} max={50} step={0.5} unit="%" onChange={(v) => updateProfile(profile.id, { motion: { ...profile.motion, minAreaPercent: v } })} />
+                                <Slider label="Intervalo entre alertas" value={profile.motion.cooldownSeconds} min={1} max={120} unit="s" onChange={(v) => updateProfile(profile.id, { motion: { ...profile.motion, cooldownSeconds: v } })} />
+                                <div className="flex flex-col gap-1 sm:col-span-2">
+                                    Zonas ativas
+                                    {zones.length === 0 ? (
+                                        <span className="text-gray-500">Nenhuma zona desenhada; o quadro inteiro é monitorado.</span>
+                                    ) : (
+                                        <div className="flex flex-wrap gap-3">
+                                            {zones.map(zone => (
+                                                <label key={zone.id} className="flex items-center gap-1">
+                                                    <input type="checkbox" checked={!profile.disabledZoneIds.includes(zone.id)} onChange={() => updateProfile(profile.id, { disabledZoneIds: toggle(profile.disabledZoneIds, zone.id) })} className="accent-blue-500" />
+                                                    {zone.name}{zone.kind === 'exclude' ? ' (máscara)' : ''}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex flex-col gap-1 sm:col-span-2">
+                                    Regras de alerta ativas
+                                    {rules.length === 0 ? (
+                                        <span className="text-gray-500">Nenhuma regra criada.</span>
+                                    ) : (
+                                        <div className="flex flex-wrap gap-3">
+                                            {rules.map(rule => (
+                                                <label key={rule.id} className="flex items-center gap-1">
+                                                    <input type="checkbox" checked={!profile.disabledRuleIds.includes(rule.id)} onChange={() => updateProfile(profile.id, { disabledRuleIds: toggle(profile.disabledRuleIds, rule.id) })} className="accent-blue-500" />
+                                                    {rule.name || 'Sem nome'}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <button onClick={addProfile} className="self-start px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md transition-colors flex items-center gap-2">
+                <Plus className="w-4 h-4" />Adicionar perfil
+            </button>
+
+            <div className="flex flex-col gap-3 mt-3">
+                <label className="flex items-center gap-2 font-medium text-gray-200">
+                    <input type="checkbox" checked={settings.scheduleEnabled} onChange={(e) => onChange({ ...settings, scheduleEnabled: e.target.checked })} className="accent-blue-500 w-4 h-4" />
+                    <CalendarClock className="w-4 h-4" />Trocar de perfil automaticamente pela agenda semanal
+                </label>
+                <label className="flex items-center gap-2">
+                    Fora dos horários abaixo, usar
+                    <select value={settings.defaultProfileId} onChange={(e) => onChange({ ...settings, defaultProfileId: e.target.value })} className={`${inputClass} w-auto`}>
+                        {settings.profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                    </select>
+                </label>
+
+                {settings.schedule.map(entry => (
+                    <div key={entry.id} className="flex flex-wrap items-center gap-2 bg-gray-900/50 border border-gray-700 rounded-md p-2">
+                        <select value={entry.profileId} onChange={(e) => updateEntry(entry.id, { profileId: e.target.value })} className={`${inputClass} w-auto`}>
+                            {settings.profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                        </select>
+                        <div className="flex gap-1">
+                            {DAY_LABELS.map((label, day) => (
+                                <button key={day} onClick={() => toggleDay(entry, day)} className={`px-2 py-1 rounded text-xs ${entry.days.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'}`}>{label}</button>
+                            ))}
+                        </div>
+                        <input type="time" value={entry.startTime} onChange={(e) => updateEntry(entry.id, { startTime: e.target.value })} className={`${inputClass} w-auto`} />
+                        até
+                        <input type="time" value={entry.endTime} onChange={(e) => updateEntry(entry.id, { endTime: e.target.value })} className={`${inputClass} w-auto`} />
+                        <button onClick={() => onChange({ ...settings, schedule: settings.schedule.filter(e => e.id !== entry.id) })} title="Excluir" className="ml-auto p-1 text-gray-400 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                ))}
+                {settings.schedule.length > 0 && <p className="text-gray-500">Horários que passam da meia-noite contam a partir do dia de início. Se dois horários se sobrepõem, vale o primeiro da lista.</p>}
+
+                <button onClick={() => onChange({ ...settings, schedule: [...settings.schedule, createScheduleEntry(settings.profiles[0].id)] })} className="self-start px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md flex items-center gap-2">
+                    <Plus className="w-4 h-4" />Adicionar horário
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ArmingProfilesPanel;
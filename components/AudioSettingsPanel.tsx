@@ -0,0 +1,103 @@
+
+import React from 'react';
+import type { AudioSettings, SoundCategory } from '../types';
+import { SOUND_CATEGORY_LABELS } from '../services/soundClassifier';
+import Slider from './Slider';
+
+interface AudioSettingsPanelProps {
+    settings: AudioSettings;
+    onChange: (settings: AudioSettings) => void;
+    isSupported: boolean;
+    isMicrophoneEnabled: boolean;
+    onEnableMicrophone: () => void;
+    level: number | null; // current dBFS, null while not listening
+}
+
+const METER_FLOOR_DB = -60;
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, onChange, isSupported, isMicrophoneEnabled, onEnableMicrophone, level }) => {
+    const update = <K extends keyof AudioSettings>(field: K, value: AudioSettings[K]) => onChange({ ...settings, [field]: value });
+
+    const toggleCategory = (category: SoundCategory) => {
+        const categories = settings.categories.includes(category)
+            ? settings.categories.filter(c => c !== category)
+            : [...settings.categories, category];
+        update('categories', categories);
+    };
+
+    if (!isSupported) {
+        return <p className="text-sm text-gray-500">A detecção de som não é suportada neste navegador.</p>;
+    }
+
+    const toMeter = (db: number) => Math.min(100, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB * 100));
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-300 sm:col-span-2">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update('enabled', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                Gerar eventos a partir do som do microfone
+            </label>
+            {settings.enabled && !isMicrophoneEnabled && (
+                <p className="text-sm text-yellow-400 sm:col-span-2 flex items-center gap-2 flex-wrap">
+                    O microfone está desligado.
+                    <button onClick={onEnableMicrophone} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md">Ligar microfone</button>
+                </p>
+            )}
+            {settings.enabled && (
+                <>
+                    <div className="sm:col-span-2 text-sm text-gray-300">
+                        <div className="flex justify-between mb-1">
+                            Nível atual
+                            <span className="text-gray-400">{level === null ? '—' : `${Math.round(level)} dBFS`}</span>
+                        </div>
+                        <div className="relative h-3 bg-gray-700 rounded">
+                            <div
+                                className={`h-3 rounded transition-[width] duration-75 ${level !== null && level >= settings.thresholdDb ? 'bg-red-500' : 'bg-green-500'}`}
+                                style={{ width: `${level === null ? 0 : toMeter(level)}%` }}
+                            />
+                            <div className="absolute top-0 h-3 w-0.5 bg-white" style={{ left: `${toMeter(settings.thresholdDb)}%` }} title="Limite" />
+                        </div>
+                    </div>
+                    <label className="flex flex-col gap-1 text-sm text-gray-300">
+                        Medição
+                        <select value={settings.mode} onChange={(e) => update('mode', e.target.value as AudioSettings['mode'])} className={inputClass}>
+                            <option value="rms">Volume médio (RMS)</option>
+                            <option value="peak">Pico</option>
+                        </select>
+                    </label>
+                    <Slider label="Limite" value={settings.thresholdDb} min={METER_FLOOR_DB} max={0} unit=" dBFS" onChange={(v) => update('thresholdDb', v)} />
+                    <Slider label="Duração mínima" value={settings.minDurationMs} min={0} max={3000} step={50} unit=" ms" onChange={(v) => update('minDurationMs', v)} />
+                    <Slider label="Intervalo entre alertas" value={settings.cooldownSeconds} min={1} max={120} unit="s" onChange={(v) => update('cooldownSeconds', v)} />
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={settings.recordClip} onChange={(e) => update('recordClip', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                        Gravar um clipe de áudio com cada evento
+                    </label>
+                    {settings.recordClip && (
+                        <Slider label="Áudio depois do evento" value={settings.clipSeconds} min={1} max={30} unit="s" onChange={(v) => update('clipSeconds', v)} />
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-300 sm:col-span-2">
+                        <input type="checkbox" checked={settings.classifierEnabled} onChange={(e) => update('classifierEnabled', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                        Classificar o som no navegador e só alertar para os tipos escolhidos
+                    </label>
+                    {settings.classifierEnabled && (
+                        <>
+                            <div className="flex flex-wrap gap-1 sm:col-span-2">
+                                {(Object.keys(SOUND_CATEGORY_LABELS) as SoundCategory[]).map(category => (
+                                    <button key={category} onClick={() => toggleCategory(category)} className={`px-2 py-1 rounded text-xs ${settings.categories.includes(category) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'}`}>
+                                        {SOUND_CATEGORY_LABELS[category]}
+                                    </button>
+                                ))}
+                            </div>
+                            <Slider label="Confiança mínima" value={Math.round(settings.classifierMinScore * 100)} min={5} max={95} step={5} unit="%" onChange={(v) => update('classifierMinScore', v / 100)} />
+                            <p className="text-xs text-gray-500 sm:col-span-2">O modelo (YAMNet, cerca de 4 MB) é baixado no primeiro uso.</p>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,113 @@
+
+import React, { useEffect, useState } from 'react';
+import type { CameraSettings } from '../types';
+import { describeDevice, FRAME_RATE_OPTIONS, listDevices, RESOLUTION_OPTIONS } from '../services/cameraDevices';
+import type { AvailableDevices, TrackControls } from '../services/cameraDevices';
+import Slider from './Slider';
+
+interface CameraSettingsPanelProps {
+    settings: CameraSettings;
+    onChange: (settings: CameraSettings) => void;
+    controls: TrackControls | null; // null while stopped or when the camera has none
+    isStreaming: boolean;
+}
+
+const FOCUS_MODE_LABELS: Record<string, string> = {
+    continuous: 'Contínuo',
+    'single-shot': 'Único',
+    manual: 'Manual',
+    none: 'Fixo',
+};
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({ settings, onChange, controls, isStreaming }) => {
+    const [devices, setDevices] = useState<AvailableDevices>({ video: [], audio: [] });
+    const update = <K extends keyof CameraSettings>(field: K, value: CameraSettings[K]) => onChange({ ...settings, [field]: value });
+
+    // Device labels only show up once access is granted, so list again when streaming starts.
+    useEffect(() => {
+        if (!navigator.mediaDevices?.enumerateDevices) return;
+        const refresh = () => listDevices().then(setDevices).catch(err => console.error("Erro ao listar dispositivos:", err));
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, [isStreaming]);
+
+    const videoValue = settings.videoDeviceId || `facing:${settings.facingMode}`;
+    const selectVideo = (value: string) => {
+        if (value.startsWith('facing:')) {
+            onChange({ ...settings, videoDeviceId: '', facingMode: value.slice('facing:'.length) as CameraSettings['facingMode'] });
+        } else {
+            // Capabilities differ between cameras, so start the new one from its defaults.
+            onChange({ ...settings, videoDeviceId: value, torch: false, zoom: null, focusMode: '', focusDistance: null });
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-300">
+            <label className="flex flex-col gap-1 sm:col-span-2">
+                Câmera
+                <select value={videoValue} onChange={(e) => selectVideo(e.target.value)} className={inputClass}>
+                    <option value="facing:environment">Traseira (padrão)</option>
+                    <option value="facing:user">Frontal (padrão)</option>
+                    {devices.video.map((device, i) => <option key={device.deviceId} value={device.deviceId}>{describeDevice(device, i, 'Câmera')}</option>)}
+                    {settings.videoDeviceId && !devices.video.some(d => d.deviceId === settings.videoDeviceId) && (
+                        <option value={settings.videoDeviceId}>Câmera salva (desconectada)</option>
+                    )}
+                </select>
+            </label>
+            <label className="flex flex-col gap-1">
+                Resolução
+                <select value={settings.resolution} onChange={(e) => update('resolution', e.target.value)} className={inputClass}>
+                    {RESOLUTION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            </label>
+            <label className="flex flex-col gap-1">
+                Quadros por segundo
+                <select value={settings.frameRate} onChange={(e) => update('frameRate', Number(e.target.value))} className={inputClass}>
+                    {FRAME_RATE_OPTIONS.map(fps => <option key={fps} value={fps}>{fps === 0 ? 'Automático' : `${fps} fps`}</option>)}
+                </select>
+            </label>
+
+            <label className="flex items-center gap-2 sm:col-span-2">
+                <input type="checkbox" checked={settings.audioEnabled} onChange={(e) => update('audioEnabled', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                Transmitir e gravar o áudio do microfone
+            </label>
+            {settings.audioEnabled && (
+                <label className="flex flex-col gap-1 sm:col-span-2">
+                    Microfone
+                    <select value={settings.audioDeviceId} onChange={(e) => update('audioDeviceId', e.target.value)} className={inputClass}>
+                        <option value="">Padrão do sistema</option>
+                        {devices.audio.map((device, i) => <option key={device.deviceId} value={device.deviceId}>{describeDevice(device, i, 'Microfone')}</option>)}
+                    </select>
+                </label>
+            )}
+
+            {isStreaming && !controls && <p className="text-gray-500 sm:col-span-2">Esta câmera não oferece controles de lanterna, zoom ou foco.</p>}
+            {controls?.torch && (
+                <label className="flex items-center gap-2 sm:col-span-2">
+                    <input type="checkbox" checked={settings.torch} onChange={(e) => update('torch', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                    Lanterna
+                </label>
+            )}
+            {controls?.zoom && (
+                <Slider label="Zoom" value={settings.zoom ?? controls.zoom.min} min={controls.zoom.min} max={controls.zoom.max} step={controls.zoom.step} unit="x" onChange={(v) => update('zoom', v)} />
+            )}
+            {controls && controls.focusModes.length > 0 && (
+                <label className="flex flex-col gap-1">
+                    Foco
+                    <select value={settings.focusMode} onChange={(e) => update('focusMode', e.target.value)} className={inputClass}>
+                        <option value="">Padrão da câmera</option>
+                        {controls.focusModes.map(mode => <option key={mode} value={mode}>{FOCUS_MODE_LABELS[mode] ?? mode}</option>)}
+                    </select>
+                </label>
+            )}
+            {controls?.focusDistance && settings.focusMode === 'manual' && (
+                <Slider label="Distância do foco" value={settings.focusDistance ?? controls.focusDistance.min} min={controls.focusDistance.min} max={controls.focusDistance.max} step={controls.focusDistance.step} unit="" onChange={(v) => update('focusDistance', v)} />
+            )}
+        </div>
+    );
+};
+
+export default CameraSettingsPanel;
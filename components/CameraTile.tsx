@@ -0,0 +1,66 @@
+
+import React, { useEffect, useRef } from 'react';
+import type Peer from 'peerjs';
+import { Loader, Lock, Maximize, Trash2 } from 'lucide-react';
+import type { SavedCamera } from '../types';
+import { usePeerStream } from '../hooks/usePeerStream';
+import type { PeerStreamStatus } from '../hooks/usePeerStream';
+
+interface CameraTileProps {
+    peer: Peer | null;
+    camera: SavedCamera;
+    onRemove: () => void;
+}
+
+const STATUS_LABELS: Record<PeerStreamStatus, { label: string; color: string }> = {
+    connecting: { label: 'Conectando', color: 'bg-blue-400' },
+    connected: { label: 'Ao vivo', color: 'bg-green-400' },
+    reconnecting: { label: 'Reconectando', color: 'bg-yellow-400' },
+    denied: { label: 'Acesso negado', color: 'bg-red-500' },
+};
+
+const CameraTile: React.FC<CameraTileProps> = ({ peer, camera, onRemove }) => {
+    const tileRef = useRef<HTMLDivElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const { stream, status, deniedReason } = usePeerStream(peer, camera.peerId, { token: camera.token, passphrase: camera.passphrase });
+    const statusInfo = STATUS_LABELS[status];
+
+    useEffect(() => {
+        if (videoRef.current) videoRef.current.srcObject = stream;
+    }, [stream]);
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) {
+            document.exitFullscreen();
+        } else {
+            tileRef.current?.requestFullscreen();
+        }
+    };
+
+    return (
+        <div ref={tileRef} className="relative aspect-video bg-black rounded-xl shadow-lg overflow-hidden border-2 border-gray-700 group">
+            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" onDoubleClick={toggleFullscreen}></video>
+            {status === 'denied' ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/70 text-center p-4 text-red-300">
+                    <Lock className="w-10 h-10" />
+                    <p>{deniedReason}</p>
+                </div>
+            ) : status !== 'connected' && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+                    <Loader className="w-10 h-10 text-gray-300 animate-spin" />
+                </div>
+            )}
+            <div className="absolute top-0 inset-x-0 p-2 flex items-center gap-2 bg-gradient-to-b from-black/70 to-transparent">
+                <span className={`w-2.5 h-2.5 rounded-full ${statusInfo.color} ${status === 'connected' || status === 'denied' ? '' : 'animate-pulse'}`} />
+                <span className="font-medium text-gray-100 truncate">{camera.name}</span>
+                <span className="text-xs text-gray-300">{statusInfo.label}</span>
+                <div className="ml-auto flex gap-1">
+                    <button onClick={toggleFullscreen} title="Tela cheia" className="p-1.5 rounded-md text-gray-200 hover:bg-white/20"><Maximize className="w-4 h-4" /></button>
+                    <button onClick={onRemove} title="Remover do painel" className="p-1.5 rounded-md text-gray-200 hover:bg-red-500/60"><Trash2 className="w-4 h-4" /></button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CameraTile;
@@ -0,0 +1,35 @@
+
+import React from 'react';
+import type { ClipSettings } from '../types';
+import Slider from './Slider';
+
+interface ClipSettingsPanelProps {
+    settings: ClipSettings;
+    onChange: (settings: ClipSettings) => void;
+    isSupported: boolean;
+}
+
+const ClipSettingsPanel: React.FC<ClipSettingsPanelProps> = ({ settings, onChange, isSupported }) => {
+    const update = <K extends keyof ClipSettings>(field: K, value: ClipSettings[K]) => onChange({ ...settings, [field]: value });
+
+    if (!isSupported) {
+        return <p className="text-sm text-gray-500">A gravação de clipes não é suportada neste navegador.</p>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-300 sm:col-span-2">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update('enabled', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                Gravar um clipe de vídeo com cada evento
+            </label>
+            {settings.enabled && (
+                <>
+                    <Slider label="Antes do evento (mínimo)" value={settings.preRollSeconds} min={1} max={30} unit="s" onChange={(v) => update('preRollSeconds', v)} />
+                    <Slider label="Depois do evento" value={settings.postRollSeconds} min={1} max={60} unit="s" onChange={(v) => update('postRollSeconds', v)} />
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ClipSettingsPanel;
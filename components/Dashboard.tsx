@@ -0,0 +1,163 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type Peer from 'peerjs';
+import { Plus, XCircle } from 'lucide-react';
+import type { NetworkSettings, SavedCamera } from '../types';
+import { loadSetting, saveSetting } from '../services/settings';
+import { createPeer, decodeNetworkParam, loadNetworkSettings } from '../services/peerConfig';
+import { keepPeerRegistered, isBrokerError } from '../services/reconnect';
+import CameraTile from './CameraTile';
+
+interface PeerConnection {
+    isClosed: boolean;
+    close: () => void;
+}
+
+// Accepts either a bare peer ID or a share link containing ?view=<id>[&token=<invite>][&net=<network>].
+function parseCameraInput(input: string): { peerId: string; token?: string; network?: NetworkSettings } {
+    const trimmed = input.trim();
+    try {
+        const params = new URL(trimmed).searchParams;
+        return {
+            peerId: params.get('view') ?? trimmed,
+            token: params.get('token') ?? undefined,
+            network: decodeNetworkParam(params.get('net')) ?? undefined,
+        };
+    } catch {
+        return { peerId: trimmed };
+    }
+}
+
+// Cameras on the same broker with the same relays share a peer.
+function networkKey(network: NetworkSettings): string {
+    return JSON.stringify({ ...network, cameraPeerId: '' });
+}
+
+const inputClass = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const Dashboard: React.FC = () => {
+    const [cameras, setCameras] = useState<SavedCamera[]>(() => loadSetting('cameras', []));
+    const [peers, setPeers] = useState<Record<string, Peer>>({});
+    const [peerErrors, setPeerErrors] = useState<Record<string, string>>({});
+    const [newName, setNewName] = useState('');
+    const [newId, setNewId] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [localNetwork] = useState(loadNetworkSettings);
+    const connectionsRef = useRef(new Map<string, PeerConnection>());
+
+    const networks = new Map<string, NetworkSettings>(cameras.map(camera => {
+        const network = camera.network ?? localNetwork;
+        return [networkKey(network), network];
+    }));
+    const networkKeys = [...networks.keys()].sort().join('\n');
+
+    const setPeerError = (key: string, message: string | null) => {
+        setPeerErrors(errors => {
+            const { [key]: _, ...rest } = errors;
+            return message === null ? rest : { ...rest, [key]: message };
+        });
+    };
+
+    const closeConnection = (key: string) => {
+        connectionsRef.current.get(key)?.close();
+        connectionsRef.current.delete(key);
+        setPeers(({ [key]: _, ...rest }) => rest);
+        setPeerError(key, null);
+    };
+
+    useEffect(() => {
+        networks.forEach((network, key) => {
+            if (connectionsRef.current.has(key)) return;
+            const connection: PeerConnection = { isClosed: false, close: () => { connection.isClosed = true; } };
+            connectionsRef.current.set(key, connection);
+            const where = network.host ? ` com ${network.host}` : '';
+            createPeer(network).then(peer => {
+                if (connection.isClosed) {
+                    peer.destroy();
+                    return;
+                }
+                setPeers(p => ({ ...p, [key]: peer }));
+                const stopRegistration = keepPeerRegistered(peer, (retryInMs) => {
+                    setPeerError(key, retryInMs === null ? null : `Conexão${where} perdida. Reconectando em ${Math.ceil(retryInMs / 1000)}s...`);
+                });
+                connection.close = () => {
+                    connection.isClosed = true;
+                    stopRegistration();
+                    peer.destroy();
+                };
+                peer.on('error', (err: any) => {
+                    // An offline camera is handled by its tile, which keeps retrying.
+                    if (err.type === 'peer-unavailable') return;
+                    if (isBrokerError(err) && !peer.destroyed) return;
+                    console.error("PeerJS error:", err);
+                    setPeerError(key, `Erro de conexão P2P${where} (${err.type}).`);
+                });
+            });
+        });
+        [...connectionsRef.current.keys()].filter(key => !networks.has(key)).forEach(closeConnection);
+    }, [networkKeys]);
+
+    useEffect(() => () => {
+        connectionsRef.current.forEach(connection => connection.close());
+        connectionsRef.current.clear();
+    }, []);
+
+    const updateCameras = (newCameras: SavedCamera[]) => {
+        setCameras(newCameras);
+        saveSetting('cameras', newCameras);
+    };
+
+    const addCamera = (e: React.FormEvent) => {
+        e.preventDefault();
+        const { peerId, token, network } = parseCameraInput(newId);
+        if (!peerId || cameras.some(c => c.peerId === peerId)) return;
+        const camera: SavedCamera = { peerId, name: newName.trim() || `Câmera ${cameras.length + 1}`, token, passphrase: newPassphrase || undefined, network };
+        updateCameras([...cameras, camera]);
+        setNewName('');
+        setNewId('');
+        setNewPassphrase('');
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-900 flex flex-col items-center p-4 md:p-6 lg:p-8">
+            <header className="w-full max-w-7xl mb-4 text-center">
+                <h1 className="text-3xl md:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300">
+                    Painel de Câmeras
+                </h1>
+            </header>
+
+            <main className="w-full max-w-7xl flex flex-col gap-6">
+                <form onSubmit={addCamera} className="bg-gray-800 p-4 rounded-lg shadow-md flex flex-col sm:flex-row gap-2">
+                    <input type="text" placeholder="Nome (ex.: Garagem)" value={newName} onChange={(e) => setNewName(e.target.value)} className={`${inputClass} sm:w-56`} />
+                    <input type="text" placeholder="Link de convite ou ID da câmera" value={newId} onChange={(e) => setNewId(e.target.value)} className={`${inputClass} flex-grow`} />
+                    <input type="password" placeholder="Senha (se não houver convite)" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} className={`${inputClass} sm:w-56`} />
+                    <button type="submit" disabled={!newId.trim()} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 text-white font-semibold rounded-md transition-colors flex items-center justify-center gap-2">
+                        <Plus className="w-5 h-5" />Adicionar
+                    </button>
+                </form>
+
+                {Object.entries(peerErrors).map(([key, peerError]) => (
+                    <div key={key} className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg text-center flex items-center justify-center gap-2">
+                        <XCircle className="w-5 h-5" />{peerError}
+                    </div>
+                ))}
+
+                {cameras.length === 0 ? (
+                    <p className="text-center text-gray-500 py-12">Nenhuma câmera no painel. Adicione o link de convite de uma câmera, ou o ID dela com a senha.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                        {cameras.map(camera => (
+                            <CameraTile key={camera.peerId} peer={peers[networkKey(camera.network ?? localNetwork)] ?? null} camera={camera} onRemove={() => updateCameras(cameras.filter(c => c.peerId !== camera.peerId))} />
+                        ))}
+                    </div>
+                )}
+            </main>
+
+            <footer className="mt-6 text-center">
+                <a href={window.location.origin + window.location.pathname} className="text-blue-400 hover:underline">Voltar para o modo câmera</a>
+            </footer>
+        </div>
+    );
+};
+
+export default Dashboard;
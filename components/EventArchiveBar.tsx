@@ -0,0 +1,102 @@
+
+import React, { useRef, useState } from 'react';
+import { FileArchive, ListChecks, Loader, Printer, Upload } from 'lucide-react';
+import type { DetectionEvent } from '../types';
+import { exportArchive, importArchive } from '../services/eventArchive';
+import { importEvents } from '../services/eventStore';
+import { openPrintableReport } from '../services/incidentReport';
+
+interface EventArchiveBarProps {
+    events: DetectionEvent[]; // what export and the report act on
+    isSelecting: boolean;
+    selectedCount: number;
+    onToggleSelecting: () => void;
+    onSelectAll: () => void;
+    onImported: (events: DetectionEvent[]) => void;
+    retentionDays: number; // 0 when events never expire
+}
+
+const buttonClass = "px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-200 rounded-md flex items-center gap-2";
+
+const EventArchiveBar: React.FC<EventArchiveBarProps> = ({ events, isSelecting, selectedCount, onToggleSelecting, onSelectAll, onImported, retentionDays }) => {
+    const [busy, setBusy] = useState<'export' | 'report' | 'import' | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const run = async (action: 'export' | 'report' | 'import', task: () => Promise<string | null>) => {
+        setBusy(action);
+        setMessage(null);
+        try {
+            const text = await task();
+            if (text) setMessage({ text, isError: false });
+        } catch (err) {
+            console.error("Erro ao exportar/importar eventos:", err);
+            setMessage({ text: err instanceof Error ? err.message : "Erro desconhecido.", isError: true });
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleExport = () => run('export', async () => {
+        const blob = await exportArchive(events);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `eventos-${new Date().toISOString().slice(0, 10)}.zip`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 10000);
+        return null;
+    });
+
+    const handleReport = () => run('report', async () => {
+        await openPrintableReport(events);
+        return null;
+    });
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        run('import', async () => {
+            const { items, skipped } = await importArchive(file);
+            const added = await importEvents(items);
+            onImported(added);
+            const duplicates = items.length - added.length;
+            const expiresBefore = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+            const expired = retentionDays > 0 ? added.filter(event => event.timestamp.getTime() < expiresBefore).length : 0;
+            return [
+                `${added.length} evento${added.length === 1 ? '' : 's'} importado${added.length === 1 ? '' : 's'}.`,
+                duplicates > 0 && `${duplicates} já existia${duplicates === 1 ? '' : 'm'}.`,
+                skipped > 0 && `${skipped} inválido${skipped === 1 ? '' : 's'} ignorado${skipped === 1 ? '' : 's'}.`,
+                expired > 0 && `Atenção: ${expired} passa${expired === 1 ? '' : 'm'} do limite de retenção de ${retentionDays} dias e ${expired === 1 ? 'será' : 'serão'} apagado${expired === 1 ? '' : 's'} na próxima limpeza.`,
+            ].filter(Boolean).join(' ');
+        });
+    };
+
+    const target = isSelecting ? `${selectedCount} selecionado${selectedCount === 1 ? '' : 's'}` : `${events.length} evento${events.length === 1 ? '' : 's'}`;
+
+    return (
+        <div className="flex flex-col gap-2 mb-6 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={onToggleSelecting} className={isSelecting ? "px-3 py-2 bg-blue-600 text-white rounded-md flex items-center gap-2" : buttonClass}>
+                    <ListChecks className="w-4 h-4" />{isSelecting ? 'Concluir seleção' : 'Selecionar'}
+                </button>
+                {isSelecting && <button onClick={onSelectAll} className={buttonClass}>Selecionar todos</button>}
+                <button onClick={handleExport} disabled={busy !== null || events.length === 0} className={buttonClass}>
+                    {busy === 'export' ? <Loader className="w-4 h-4 animate-spin" /> : <FileArchive className="w-4 h-4" />}Exportar ZIP ({target})
+                </button>
+                <button onClick={handleReport} disabled={busy !== null || events.length === 0} className={buttonClass}>
+                    {busy === 'report' ? <Loader className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}Relatório para impressão
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={busy !== null} className={`${buttonClass} md:ml-auto`}>
+                    {busy === 'import' ? <Loader className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}Importar ZIP
+                </button>
+                <input ref={fileInputRef} type="file" accept=".zip,application/zip" onChange={handleImport} className="hidden" />
+            </div>
+            {!isSelecting && <p className="text-gray-500">Sem seleção, a exportação inclui os eventos que passam pelos filtros acima, incluindo o período.</p>}
+            {message && <p className={message.isError ? 'text-red-400' : 'text-green-400'}>{message.text}</p>}
+        </div>
+    );
+};
+
+export default EventArchiveBar;
@@ -0,0 +1,102 @@
+
+import React, { useState } from 'react';
+import { Loader, MessageSquare, Newspaper } from 'lucide-react';
+import type { DetectionEvent } from '../types';
+import type { ImageAnalyzer } from '../services/imageAnalyzer';
+import type { AnalysisQueue } from '../services/analysisQueue';
+import { askAboutEvents, summarizeDay } from '../services/eventQuestions';
+import type { EventAnswer } from '../services/eventQuestions';
+import { dayKey } from '../services/analysisUsage';
+
+interface EventAssistantProps {
+    events: DetectionEvent[];
+    analyzer: ImageAnalyzer | null;
+    queue: AnalysisQueue | null; // questions share the analyses' budgets
+    onSelectEvent: (eventId: string) => void;
+}
+
+const inputClass = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const EventAssistant: React.FC<EventAssistantProps> = ({ events, analyzer, queue, onSelectEvent }) => {
+    const [question, setQuestion] = useState('');
+    const [summaryDay, setSummaryDay] = useState(() => dayKey());
+    const [answer, setAnswer] = useState<(EventAnswer & { title: string }) | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!analyzer?.generateText || !queue) {
+        return null;
+    }
+
+    const run = async (title: string, request: () => Promise<EventAnswer>) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setAnswer({ ...await request(), title });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Não foi possível consultar a IA.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const ask = (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = question.trim();
+        if (text) run(text, () => askAboutEvents(queue, events, text));
+    };
+
+    const summarize = () => {
+        const day = new Date(`${summaryDay}T12:00:00`);
+        run(`Resumo do dia ${day.toLocaleDateString('pt-BR')}`, () => summarizeDay(queue, events, day));
+    };
+
+    const linkedEvents = answer ? answer.eventIds.map(id => events.find(e => e.id === id)).filter((e): e is DetectionEvent => Boolean(e)) : [];
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-md mb-6 flex flex-col gap-3 text-sm">
+            <form onSubmit={ask} className="flex flex-col md:flex-row gap-2">
+                <input
+                    type="text"
+                    value={question}
+                    placeholder='Pergunte sobre os eventos, ex.: "quando a entrega chegou ontem?"'
+                    onChange={(e) => setQuestion(e.target.value)}
+                    className={`${inputClass} flex-grow`}
+                />
+                <button type="submit" disabled={isLoading || !question.trim()} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md flex items-center justify-center gap-2">
+                    <MessageSquare className="w-4 h-4" />Perguntar
+                </button>
+                <div className="flex gap-2">
+                    <input type="date" value={summaryDay} max={dayKey()} onChange={(e) => setSummaryDay(e.target.value)} className={inputClass} />
+                    <button type="button" onClick={summarize} disabled={isLoading || !summaryDay} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 rounded-md flex items-center gap-2 whitespace-nowrap">
+                        <Newspaper className="w-4 h-4" />Resumo do dia
+                    </button>
+                </div>
+            </form>
+
+            {isLoading && (
+                <p className="flex items-center gap-2 text-blue-400"><Loader className="w-4 h-4 animate-spin" />Consultando a IA...</p>
+            )}
+            {error && <p className="text-red-400">{error}</p>}
+            {answer && !isLoading && (
+                <div className="flex flex-col gap-2">
+                    <p className="font-semibold text-gray-200">{answer.title}</p>
+                    <p className="text-gray-300 whitespace-pre-line">{answer.text || "A IA não retornou uma resposta."}</p>
+                    {linkedEvents.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {linkedEvents.map(event => (
+                                <button key={event.id} onClick={() => onSelectEvent(event.id)} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-blue-300 text-xs">
+                                    {event.timestamp.toLocaleDateString('pt-BR')} {event.timestamp.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                                    {event.zoneName && ` · ${event.zoneName}`}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <button onClick={() => setAnswer(null)} className="self-start text-gray-400 hover:underline">Fechar</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EventAssistant;
@@ -0,0 +1,112 @@
+
+import React, { useState } from 'react';
+import { Search, Settings, X } from 'lucide-react';
+import type { EventFilter, RetentionPolicy, ObjectClass, ThreatLevel } from '../types';
+import { EMPTY_FILTER, isFilterActive } from '../services/eventFilters';
+import { THREAT_LEVEL_LABELS, THREAT_LEVEL_STYLES, OBJECT_CLASS_LABELS } from './analysisLabels';
+
+interface EventLogControlsProps {
+    filter: EventFilter;
+    onFilterChange: (filter: EventFilter) => void;
+    retention: RetentionPolicy;
+    onRetentionChange: (retention: RetentionPolicy) => void;
+    totalCount: number;
+    visibleCount: number;
+}
+
+const toggleValue = <T,>(values: T[], value: T): T[] => values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const chipClass = (isActive: boolean) => `px-3 py-1 rounded-full text-sm border transition-colors flex items-center gap-1.5 ${isActive ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`;
+
+const inputClass = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const EventLogControls: React.FC<EventLogControlsProps> = ({ filter, onFilterChange, retention, onRetentionChange, totalCount, visibleCount }) => {
+    const [showRetention, setShowRetention] = useState(false);
+    // Edited locally and applied explicitly, since a half-typed value could prune events.
+    const [draftRetention, setDraftRetention] = useState<RetentionPolicy>(retention);
+
+    const updateDraft = (field: keyof RetentionPolicy, value: string) => {
+        setDraftRetention(prev => ({ ...prev, [field]: Math.max(0, Number(value) || 0) }));
+    };
+
+    const toggleRetention = () => {
+        setDraftRetention(retention);
+        setShowRetention(prev => !prev);
+    };
+
+    const isDraftChanged = draftRetention.maxDays !== retention.maxDays || draftRetention.maxMegabytes !== retention.maxMegabytes;
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-md mb-6 flex flex-col gap-3">
+            <div className="flex flex-col md:flex-row gap-2">
+                <div className="relative flex-grow">
+                    <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        type="search"
+                        placeholder="Buscar na análise..."
+                        value={filter.search}
+                        onChange={(e) => onFilterChange({ ...filter, search: e.target.value })}
+                        className={`${inputClass} w-full pl-9`}
+                    />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    De
+                    <input type="date" value={filter.from} max={filter.to || undefined} onChange={(e) => onFilterChange({ ...filter, from: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Até
+                    <input type="date" value={filter.to} min={filter.from || undefined} onChange={(e) => onFilterChange({ ...filter, to: e.target.value })} className={inputClass} />
+                </label>
+                {isFilterActive(filter) && (
+                    <button onClick={() => onFilterChange(EMPTY_FILTER)} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md flex items-center justify-center gap-1">
+                        <X className="w-4 h-4" />Limpar
+                    </button>
+                )}
+                <button onClick={toggleRetention} title="Política de retenção" className={`px-3 py-2 rounded-md flex items-center justify-center ${showRetention ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}>
+                    <Settings className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-400 mr-1">Ameaça:</span>
+                {(Object.keys(THREAT_LEVEL_LABELS) as ThreatLevel[]).map(level => (
+                    <button key={level} onClick={() => onFilterChange({ ...filter, threatLevels: toggleValue(filter.threatLevels, level) })} className={chipClass(filter.threatLevels.includes(level))}>
+                        <span className={`w-2 h-2 rounded-full ${THREAT_LEVEL_STYLES[level].dot}`} />
+                        {THREAT_LEVEL_LABELS[level]}
+                    </button>
+                ))}
+                <span className="text-sm text-gray-400 ml-3 mr-1">Objetos:</span>
+                {(Object.keys(OBJECT_CLASS_LABELS) as ObjectClass[]).map(objectClass => (
+                    <button key={objectClass} onClick={() => onFilterChange({ ...filter, classes: toggleValue(filter.classes, objectClass) })} className={chipClass(filter.classes.includes(objectClass))}>
+                        {OBJECT_CLASS_LABELS[objectClass]}
+                    </button>
+                ))}
+            </div>
+
+            {showRetention && (
+                <div className="flex flex-col sm:flex-row gap-4 border-t border-gray-700 pt-3 text-sm text-gray-300">
+                    <label className="flex items-center gap-2">
+                        Manter eventos por
+                        <input type="number" min="0" value={draftRetention.maxDays} onChange={(e) => updateDraft('maxDays', e.target.value)} className={`${inputClass} w-20`} />
+                        dias
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Limite de armazenamento
+                        <input type="number" min="0" value={draftRetention.maxMegabytes} onChange={(e) => updateDraft('maxMegabytes', e.target.value)} className={`${inputClass} w-24`} />
+                        MB
+                    </label>
+                    <span className="text-gray-500 self-center flex-grow">Use 0 para sem limite.</span>
+                    <button onClick={() => onRetentionChange(draftRetention)} disabled={!isDraftChanged} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 text-white font-semibold rounded-md transition-colors">
+                        Aplicar
+                    </button>
+                </div>
+            )}
+
+            {isFilterActive(filter) && (
+                <p className="text-sm text-gray-400">Mostrando {visibleCount} de {totalCount} eventos.</p>
+            )}
+        </div>
+    );
+};
+
+export default EventLogControls;
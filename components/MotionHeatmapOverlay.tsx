@@ -0,0 +1,35 @@
+
+import React, { useEffect, useRef } from 'react';
+import type { MotionHeatmap } from '../services/motionEngine';
+
+interface MotionHeatmapOverlayProps {
+    heatmap: MotionHeatmap;
+    frameWidth: number;
+    frameHeight: number;
+}
+
+// Drawn at the video's intrinsic size so object-cover crops it like the video.
+const MotionHeatmapOverlay: React.FC<MotionHeatmapOverlayProps> = ({ heatmap, frameWidth, frameHeight }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        const { cols, rows, levels } = heatmap;
+        const blockWidth = frameWidth / cols;
+        const blockHeight = frameHeight / rows;
+        ctx.clearRect(0, 0, frameWidth, frameHeight);
+        for (let i = 0; i < levels.length; i++) {
+            const level = levels[i];
+            if (level < 16) continue;
+            // Blue below the threshold, red above it.
+            const hue = level >= 128 ? 0 : 240 - (level / 128) * 180;
+            ctx.fillStyle = `hsla(${hue}, 90%, 50%, ${Math.min(0.6, level / 255 + 0.1)})`;
+            ctx.fillRect((i % cols) * blockWidth, Math.floor(i / cols) * blockHeight, blockWidth, blockHeight);
+        }
+    }, [heatmap, frameWidth, frameHeight]);
+
+    return <canvas ref={canvasRef} width={frameWidth} height={frameHeight} className="absolute inset-0 w-full h-full object-cover pointer-events-none" />;
+};
+
+export default MotionHeatmapOverlay;
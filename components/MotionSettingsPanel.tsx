@@ -0,0 +1,28 @@
+
+import React from 'react';
+import type { MotionSettings } from '../types';
+import Slider from './Slider';
+
+interface MotionSettingsPanelProps {
+    settings: MotionSettings;
+    onChange: (settings: MotionSettings) => void;
+}
+
+const MotionSettingsPanel: React.FC<MotionSettingsPanelProps> = ({ settings, onChange }) => {
+    const update = <K extends keyof MotionSettings>(field: K, value: MotionSettings[K]) => onChange({ ...settings, [field]: value });
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Slider label="Sensibilidade" value={settings.sensitivity} min={1} max={100} unit="" onChange={(v) => update('sensitivity', v)} />
+            <Slider label="Área mínima alterada" value={settings.minAreaPercent} min={0.5} max={50} step={0.5} unit="%" onChange={(v) => update('minAreaPercent', v)} />
+            <Slider label="Intervalo entre alertas" value={settings.cooldownSeconds} min={1} max={120} unit="s" onChange={(v) => update('cooldownSeconds', v)} />
+            <Slider label="Taxa de análise" value={settings.fps} min={1} max={30} unit=" fps" onChange={(v) => update('fps', v)} />
+            <label className="flex items-center gap-2 text-sm text-gray-300 sm:col-span-2">
+                <input type="checkbox" checked={settings.showHeatmap} onChange={(e) => update('showHeatmap', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                Mostrar mapa de calor do movimento (depuração)
+            </label>
+        </div>
+    );
+};
+
+export default MotionSettingsPanel;
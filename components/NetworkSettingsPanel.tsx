@@ -0,0 +1,95 @@
+
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import type { IceServerConfig, NetworkSettings } from '../types';
+import { getIceServerError, getPeerIdError } from '../services/peerConfig';
+
+interface NetworkSettingsPanelProps {
+    settings: NetworkSettings;
+    onChange: (settings: NetworkSettings) => void;
+}
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Changes reconnect the camera to the broker, so they are only applied on demand.
+const NetworkSettingsPanel: React.FC<NetworkSettingsPanelProps> = ({ settings, onChange }) => {
+    const [draft, setDraft] = useState<NetworkSettings>(settings);
+
+    const update = <K extends keyof NetworkSettings>(field: K, value: NetworkSettings[K]) => setDraft(prev => ({ ...prev, [field]: value }));
+
+    const updateIceServer = (index: number, changes: Partial<IceServerConfig>) => {
+        update('iceServers', draft.iceServers.map((server, i) => i === index ? { ...server, ...changes } : server));
+    };
+
+    const validationError = getPeerIdError(draft.cameraPeerId.trim())
+        ?? draft.iceServers.map(getIceServerError).find(Boolean)
+        ?? null;
+    const isChanged = JSON.stringify(draft) !== JSON.stringify(settings);
+
+    const apply = () => onChange({ ...draft, cameraPeerId: draft.cameraPeerId.trim(), host: draft.host.trim() });
+
+    return (
+        <div className="flex flex-col gap-4 text-sm text-gray-300">
+            <label className="flex flex-col gap-1">
+                ID fixo desta câmera
+                <input type="text" value={draft.cameraPeerId} placeholder="Aleatório a cada recarga (ex.: garagem-casa)" onChange={(e) => update('cameraPeerId', e.target.value)} className={inputClass} />
+                <span className="text-gray-500">Com um ID fixo, os links compartilhados continuam válidos após recarregar a página.</span>
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <label className="flex flex-col gap-1 sm:col-span-2">
+                    Servidor de sinalização
+                    <input type="text" value={draft.host} placeholder="Servidor público do PeerJS" onChange={(e) => update('host', e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    Porta
+                    <input type="number" min="1" max="65535" value={draft.port} disabled={!draft.host} onChange={(e) => update('port', Number(e.target.value) || 0)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    Caminho
+                    <input type="text" value={draft.path} disabled={!draft.host} onChange={(e) => update('path', e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1 sm:col-span-2">
+                    Chave
+                    <input type="text" value={draft.key} disabled={!draft.host} onChange={(e) => update('key', e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex items-center gap-2 sm:col-span-2 sm:self-end sm:pb-2">
+                    <input type="checkbox" checked={draft.secure} disabled={!draft.host} onChange={(e) => update('secure', e.target.checked)} className="accent-blue-500 w-4 h-4" />
+                    Conexão segura (HTTPS/WSS)
+                </label>
+            </div>
+            <p className="text-gray-500">Para usar só a rede local, rode <code className="text-gray-300">npm run signaling</code> em um computador da rede e informe o endereço dele aqui.</p>
+
+            <div className="flex flex-col gap-2">
+                <span className="font-medium text-gray-200">Servidores ICE (STUN/TURN)</span>
+                {draft.iceServers.map((server, i) => (
+                    <div key={i} className="grid grid-cols-1 sm:grid-cols-[2fr_1fr_1fr_auto] gap-2">
+                        <input type="text" value={server.urls} placeholder="turn:meuservidor.com:3478" onChange={(e) => updateIceServer(i, { urls: e.target.value.trim() })} className={inputClass} />
+                        <input type="text" value={server.username ?? ''} placeholder="Usuário" onChange={(e) => updateIceServer(i, { username: e.target.value || undefined })} className={inputClass} />
+                        <input type="password" value={server.credential ?? ''} placeholder="Senha" onChange={(e) => updateIceServer(i, { credential: e.target.value || undefined })} className={inputClass} />
+                        <button onClick={() => update('iceServers', draft.iceServers.filter((_, j) => j !== i))} title="Remover" className="p-2 text-gray-400 hover:text-red-400 justify-self-start">
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <button onClick={() => update('iceServers', [...draft.iceServers, { urls: '' }])} className="self-start px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md flex items-center gap-2">
+                    <Plus className="w-4 h-4" />Adicionar servidor
+                </button>
+                <span className="text-gray-500">Um servidor TURN permite a transmissão mesmo atrás de NATs simétricos e redes móveis.</span>
+                {draft.iceServers.some(server => server.credential) && (
+                    <p className="flex items-center gap-2 text-yellow-400"><AlertTriangle className="w-4 h-4 flex-shrink-0" />O usuário e a senha do TURN vão junto nos links e convites compartilhados: quem receber um link pode usar o seu servidor. Prefira credenciais só para isso.</p>
+                )}
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+                {validationError && <p className="flex items-center gap-2 text-yellow-400 flex-grow"><AlertTriangle className="w-4 h-4" />{validationError}</p>}
+                <button onClick={() => setDraft(settings)} disabled={!isChanged} className="px-4 py-2 text-gray-400 hover:text-white disabled:opacity-40">Descartar</button>
+                <button onClick={apply} disabled={!isChanged || !!validationError} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 text-white font-semibold rounded-md transition-colors">
+                    Aplicar
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default NetworkSettingsPanel;
@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { Loader } from 'lucide-react';
+import type { RemoteEvent } from '../services/peerProtocol';
+import { OBJECT_CLASS_LABELS, THREAT_LEVEL_LABELS, THREAT_LEVEL_STYLES } from './analysisLabels';
+
+interface RemoteEventFeedProps {
+    events: RemoteEvent[];
+}
+
+const RemoteEventFeed: React.FC<RemoteEventFeedProps> = ({ events }) => (
+    <div className="bg-gray-800 p-4 rounded-lg w-full shadow-md">
+        <h3 className="text-lg font-semibold mb-3 text-gray-200">Eventos da Câmera</h3>
+        {events.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum evento registrado ainda.</p>
+        ) : (
+            <ul className="flex flex-col gap-3 max-h-[32rem] overflow-y-auto">
+                {events.map(event => {
+                    const timestamp = new Date(event.timestamp);
+                    return (
+                        <li key={event.id} className="flex gap-3 bg-gray-900/50 rounded-md p-2 animate-fade-in">
+                            {event.thumbnail && <img src={event.thumbnail} alt="Captura do evento" className="w-28 h-20 object-cover rounded flex-shrink-0" />}
+                            <div className="flex flex-col gap-1 min-w-0 text-sm">
+                                <div className="flex flex-wrap items-center gap-2 text-gray-400">
+                                    {event.threatLevel && (
+                                        <span className={`w-2.5 h-2.5 rounded-full ${THREAT_LEVEL_STYLES[event.threatLevel].dot}`} title={`Ameaça: ${THREAT_LEVEL_LABELS[event.threatLevel]}`} />
+                                    )}
+                                    <span>{timestamp.toLocaleDateString('pt-BR')} - {timestamp.toLocaleTimeString('pt-BR')}</span>
+                                    {event.zoneName && <span className="px-2 py-0.5 rounded bg-gray-700 text-gray-300 text-xs">{event.zoneName}</span>}
+                                    {event.source === 'audio' && <span className="px-2 py-0.5 rounded bg-purple-900/60 text-purple-200 text-xs">{event.soundLabel ?? 'Som'}</span>}
+                                    {event.recognition === 'known' && <span className="px-2 py-0.5 rounded-full bg-green-900/60 text-green-200 text-xs">{event.knownSubjects?.join(', ')}</span>}
+                                    {event.recognition === 'unknown' && <span className="px-2 py-0.5 rounded-full bg-orange-900/60 text-orange-200 text-xs">Desconhecido</span>}
+                                    {event.detectedClasses?.map(c => (
+                                        <span key={c} className="px-2 py-0.5 rounded-full bg-gray-700 text-gray-200 text-xs">{OBJECT_CLASS_LABELS[c]}</span>
+                                    ))}
+                                </div>
+                                {event.isAnalyzing ? (
+                                    <p className="text-blue-400 flex items-center gap-2"><Loader className="w-3 h-3 animate-spin" />Analisando...</p>
+                                ) : (
+                                    <p className="text-gray-200">{event.analysis || "Evento registrado sem análise por IA."}</p>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        )}
+    </div>
+);
+
+export default RemoteEventFeed;
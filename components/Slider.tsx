@@ -0,0 +1,24 @@
+
+import React from 'react';
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step?: number;
+    unit: string;
+    onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step = 1, unit, onChange }) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-300">
+        <span className="flex justify-between">
+            {label}
+            <span className="text-gray-400">{value}{unit}</span>
+        </span>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="accent-blue-500" />
+    </label>
+);
+
+export default Slider;
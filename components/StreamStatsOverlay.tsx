@@ -0,0 +1,32 @@
+
+import React from 'react';
+import type { StreamStats } from '../services/streamStats';
+
+interface StreamStatsOverlayProps {
+    stats: StreamStats | null;
+}
+
+const format = (value: number | null, unit: string, digits = 0) => value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+
+const StreamStatsOverlay: React.FC<StreamStatsOverlayProps> = ({ stats }) => {
+    const rows: [string, string][] = [
+        ['Taxa', stats?.bitrateKbps != null && stats.bitrateKbps >= 1000 ? format(stats.bitrateKbps / 1000, 'Mbps', 1) : format(stats?.bitrateKbps ?? null, 'kbps')],
+        ['Quadros', format(stats?.fps ?? null, 'fps')],
+        ['Latência (RTT)', format(stats?.rttMs ?? null, 'ms')],
+        ['Perda de pacotes', format(stats?.packetLossPercent ?? null, '%', 1)],
+        ['Resolução', stats?.resolution ?? '—'],
+    ];
+
+    return (
+        <div className="absolute bottom-3 left-3 bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 text-xs font-mono text-gray-200 pointer-events-none">
+            {rows.map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4">
+                    <span className="text-gray-400">{label}</span>
+                    <span>{value}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default StreamStatsOverlay;
@@ -0,0 +1,22 @@
+
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdateBannerProps {
+    onUpdate: () => void;
+    onDismiss: () => void;
+}
+
+const UpdateBanner: React.FC<UpdateBannerProps> = ({ onUpdate, onDismiss }) => (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md bg-gray-800 border border-blue-500/50 rounded-lg shadow-2xl p-3 flex items-center gap-3 text-sm">
+        <RefreshCw className="w-5 h-5 text-blue-400 flex-shrink-0" />
+        <div className="flex-grow">
+            <p className="font-semibold text-gray-200">Nova versão disponível</p>
+            <p className="text-gray-400">A página será recarregada e o monitoramento, interrompido.</p>
+        </div>
+        <button onClick={onUpdate} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md">Atualizar</button>
+        <button onClick={onDismiss} title="Depois" className="p-1 text-gray-400 hover:text-gray-200"><X className="w-4 h-4" /></button>
+    </div>
+);
+
+export default UpdateBanner;
@@ -0,0 +1,87 @@
+
+import React, { useState } from 'react';
+import { ImagePlus, Plus, Trash2, X } from 'lucide-react';
+import type { ObjectClass, WatchlistEntry } from '../types';
+import { createWatchlistEntry, getActiveWatchlist, MAX_IMAGES_PER_ENTRY, prepareReferenceImage } from '../services/watchlist';
+import { OBJECT_CLASS_LABELS } from './analysisLabels';
+
+interface WatchlistPanelProps {
+    entries: WatchlistEntry[];
+    onChange: (update: WatchlistEntry[] | ((entries: WatchlistEntry[]) => WatchlistEntry[])) => void; // photos finish processing after other edits
+    isSupported: boolean; // the local detector can't compare images
+}
+
+const KINDS: ObjectClass[] = ['person', 'vehicle', 'animal', 'package', 'other'];
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ entries, onChange, isSupported }) => {
+    const [error, setError] = useState<string | null>(null);
+
+    const updateEntry = (id: string, changes: Partial<WatchlistEntry>) => {
+        onChange(current => current.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    };
+
+    const addImages = async (entry: WatchlistEntry, files: FileList | null) => {
+        if (!files?.length) return;
+        setError(null);
+        // The caller resets the input right away, which empties the FileList.
+        const selected = [...files];
+        const room = MAX_IMAGES_PER_ENTRY - entry.images.length;
+        if (selected.length > room) setError(`Cada referência aceita até ${MAX_IMAGES_PER_ENTRY} fotos.`);
+        try {
+            const images = await Promise.all(selected.slice(0, room).map(prepareReferenceImage));
+            onChange(current => current.map(e => e.id === entry.id ? { ...e, images: [...e.images, ...images].slice(0, MAX_IMAGES_PER_ENTRY) } : e));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Não foi possível carregar a foto.");
+        }
+    };
+
+    const imageCount = getActiveWatchlist(entries).reduce((sum, entry) => sum + entry.images.length, 0);
+
+    return (
+        <div className="flex flex-col gap-3 text-sm text-gray-300">
+            <p className="text-gray-500">
+                Cadastre fotos de pessoas, veículos e animais conhecidos. A IA compara cada evento com elas e o marca como conhecido ou desconhecido; as regras de alerta podem ignorar conhecidos ou tratar desconhecidos como mais graves.
+            </p>
+            {!isSupported && <p className="text-yellow-400">O provedor de análise selecionado não compara imagens; a lista só é usada com o Gemini ou um servidor compatível com OpenAI.</p>}
+            {imageCount > 0 && <p className="text-gray-500">{imageCount} foto{imageCount > 1 ? 's' : ''} de referência {imageCount > 1 ? 'são enviadas' : 'é enviada'} junto com cada análise, o que aumenta o consumo de tokens.</p>}
+
+            {entries.map(entry => (
+                <div key={entry.id} className="bg-gray-900/50 border border-gray-700 rounded-md p-3 flex flex-col gap-3">
+                    <div className="flex items-center gap-2">
+                        <input type="checkbox" checked={entry.enabled} onChange={(e) => updateEntry(entry.id, { enabled: e.target.checked })} title="Ativa" className="accent-blue-500 w-4 h-4" />
+                        <input type="text" value={entry.label} placeholder="Rótulo, ex.: Rex" onChange={(e) => updateEntry(entry.id, { label: e.target.value })} className={inputClass} />
+                        <select value={entry.kind} onChange={(e) => updateEntry(entry.id, { kind: e.target.value as ObjectClass })} className={`${inputClass} w-auto`}>
+                            {KINDS.map(kind => <option key={kind} value={kind}>{OBJECT_CLASS_LABELS[kind]}</option>)}
+                        </select>
+                        <button onClick={() => onChange(entries.filter(e => e.id !== entry.id))} title="Excluir" className="p-1 text-gray-400 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {entry.images.map((image, i) => (
+                            <div key={i} className="relative">
+                                <img src={image} alt={`${entry.label} ${i + 1}`} className="h-20 w-auto rounded" />
+                                <button onClick={() => updateEntry(entry.id, { images: entry.images.filter((_, j) => j !== i) })} title="Remover foto" className="absolute top-1 right-1 p-0.5 rounded bg-gray-900/80 text-gray-300 hover:text-red-400">
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                        {entry.images.length < MAX_IMAGES_PER_ENTRY && (
+                            <label className="h-20 w-20 rounded border border-dashed border-gray-600 flex flex-col items-center justify-center gap-1 text-xs text-gray-400 hover:bg-gray-700 cursor-pointer">
+                                <ImagePlus className="w-5 h-5" />Foto
+                                <input type="file" accept="image/*" multiple className="hidden" onChange={(e) => { addImages(entry, e.target.files); e.target.value = ''; }} />
+                            </label>
+                        )}
+                    </div>
+                </div>
+            ))}
+            {error && <p className="text-red-400">{error}</p>}
+
+            <button onClick={() => onChange([...entries, createWatchlistEntry()])} className="self-start px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md flex items-center gap-2">
+                <Plus className="w-4 h-4" />Adicionar referência
+            </button>
+        </div>
+    );
+};
+
+export default WatchlistPanel;
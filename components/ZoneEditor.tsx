@@ -0,0 +1,125 @@
+
+import React, { useRef, useState } from 'react';
+import { Check, Eye, EyeOff, Trash2, Undo2, X } from 'lucide-react';
+import type { MotionZone, ZonePoint } from '../types';
+
+interface ZoneEditorProps {
+    zones: MotionZone[];
+    onChange: (zones: MotionZone[]) => void;
+    frameWidth: number;
+    frameHeight: number;
+    isEditing: boolean;
+    onClose: () => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const ZoneEditor: React.FC<ZoneEditorProps> = ({ zones, onChange, frameWidth, frameHeight, isEditing, onClose }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [draft, setDraft] = useState<ZonePoint[]>([]);
+    const [draftKind, setDraftKind] = useState<MotionZone['kind']>('include');
+
+    const toSvgPoints = (points: ZonePoint[]) => points.map(p => `${p.x * frameWidth},${p.y * frameHeight}`).join(' ');
+
+    // The SVG uses the video's intrinsic size as its viewBox with "slice", which
+    // crops exactly like the video's object-cover, so clicks map to frame coordinates.
+    const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (!isEditing) return;
+        const ctm = svgRef.current?.getScreenCTM();
+        if (!ctm) return;
+        const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+        setDraft(prev => [...prev, { x: clamp(point.x / frameWidth), y: clamp(point.y / frameHeight) }]);
+    };
+
+    const finishDraft = () => {
+        if (draft.length < 3) return;
+        const count = zones.filter(zone => zone.kind === draftKind).length + 1;
+        const zone: MotionZone = {
+            id: Date.now().toString(),
+            name: `${draftKind === 'include' ? 'Zona' : 'Máscara'} ${count}`,
+            kind: draftKind,
+            enabled: true,
+            points: draft,
+        };
+        onChange([...zones, zone]);
+        setDraft([]);
+    };
+
+    const updateZone = (id: string, changes: Partial<MotionZone>) => {
+        onChange(zones.map(zone => zone.id === id ? { ...zone, ...changes } : zone));
+    };
+
+    const close = () => {
+        setDraft([]);
+        onClose();
+    };
+
+    return (
+        <>
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${frameWidth} ${frameHeight}`}
+                preserveAspectRatio="xMidYMid slice"
+                onClick={handleClick}
+                className={`absolute inset-0 w-full h-full ${isEditing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+            >
+                {zones.filter(zone => zone.enabled).map(zone => (
+                    <polygon
+                        key={zone.id}
+                        points={toSvgPoints(zone.points)}
+                        className={zone.kind === 'include' ? 'fill-green-500/20 stroke-green-400' : 'fill-red-500/30 stroke-red-400'}
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                    />
+                ))}
+                {draft.length > 0 && (
+                    <polyline
+                        points={toSvgPoints(draft.length >= 3 ? [...draft, draft[0]] : draft)}
+                        className="fill-blue-500/20 stroke-blue-400"
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                )}
+                {draft.map((point, i) => (
+                    <circle key={i} cx={point.x * frameWidth} cy={point.y * frameHeight} r={Math.max(frameWidth, frameHeight) / 150} className="fill-blue-400" />
+                ))}
+            </svg>
+
+            {isEditing && (
+                <div className="absolute bottom-3 left-3 right-3 bg-gray-900/90 backdrop-blur-sm rounded-lg p-3 text-sm text-gray-200 flex flex-col gap-2 max-h-[60%] overflow-y-auto">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-gray-400">Clique no vídeo para desenhar uma</span>
+                        <select value={draftKind} onChange={(e) => setDraftKind(e.target.value as MotionZone['kind'])} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1">
+                            <option value="include">zona monitorada</option>
+                            <option value="exclude">máscara (ignorar)</option>
+                        </select>
+                        <div className="flex gap-2 ml-auto">
+                            <button onClick={() => setDraft(prev => prev.slice(0, -1))} disabled={draft.length === 0} title="Desfazer ponto" className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-md"><Undo2 className="w-4 h-4" /></button>
+                            <button onClick={finishDraft} disabled={draft.length < 3} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400 rounded-md flex items-center gap-1"><Check className="w-4 h-4" />Concluir</button>
+                            <button onClick={close} title="Fechar editor" className="p-2 bg-gray-700 hover:bg-gray-600 rounded-md"><X className="w-4 h-4" /></button>
+                        </div>
+                    </div>
+                    {zones.length === 0 ? (
+                        <p className="text-gray-500">Sem zonas, todo o quadro é monitorado.</p>
+                    ) : (
+                        <ul className="flex flex-col gap-1">
+                            {zones.map(zone => (
+                                <li key={zone.id} className="flex items-center gap-2">
+                                    <span className={`w-3 h-3 rounded-sm flex-shrink-0 ${zone.kind === 'include' ? 'bg-green-400' : 'bg-red-400'}`} />
+                                    <input value={zone.name} onChange={(e) => updateZone(zone.id, { name: e.target.value })} className="flex-grow bg-gray-800 border border-gray-700 rounded-md px-2 py-1 focus:outline-none" />
+                                    <button onClick={() => updateZone(zone.id, { enabled: !zone.enabled })} title={zone.enabled ? 'Desativar' : 'Ativar'} className="p-1 hover:text-white text-gray-400">
+                                        {zone.enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                    </button>
+                                    <button onClick={() => onChange(zones.filter(z => z.id !== zone.id))} title="Excluir" className="p-1 hover:text-red-400 text-gray-400"><Trash2 className="w-4 h-4" /></button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </>
+    );
+};
+
+export default ZoneEditor;
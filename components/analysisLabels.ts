@@ -0,0 +1,24 @@
+
+import type { ObjectClass, ThreatLevel } from '../types';
+
+export const THREAT_LEVEL_LABELS: Record<ThreatLevel, string> = {
+    none: 'Nenhuma',
+    low: 'Baixa',
+    medium: 'Média',
+    high: 'Alta',
+};
+
+export const THREAT_LEVEL_STYLES: Record<ThreatLevel, { dot: string; badge: string }> = {
+    none: { dot: 'bg-green-400', badge: 'bg-green-900/60 text-green-300 border-green-700' },
+    low: { dot: 'bg-yellow-300', badge: 'bg-yellow-900/60 text-yellow-200 border-yellow-700' },
+    medium: { dot: 'bg-orange-400', badge: 'bg-orange-900/60 text-orange-300 border-orange-700' },
+    high: { dot: 'bg-red-500', badge: 'bg-red-900/60 text-red-300 border-red-700' },
+};
+
+export const OBJECT_CLASS_LABELS: Record<ObjectClass, string> = {
+    person: 'Pessoa',
+    vehicle: 'Veículo',
+    animal: 'Animal',
+    package: 'Pacote',
+    other: 'Outro',
+};
@@ -0,0 +1,106 @@
+
+import { useEffect, useRef, useState } from 'react';
+import type Peer from 'peerjs';
+import type { DataConnection, MediaConnection } from 'peerjs';
+import { authenticate, AccessDeniedError } from '../services/peerProtocol';
+import type { CameraMessage, ViewerCredentials } from '../services/peerProtocol';
+import { createBackoff } from '../services/reconnect';
+
+export type PeerStreamStatus = 'connecting' | 'connected' | 'reconnecting' | 'denied';
+
+const CONNECT_TIMEOUT_MS = 15000;
+
+/**
+ * Authenticates with a camera through `peer`, calls it, and keeps doing so
+ * again, backing off exponentially, whenever the stream closes, fails or
+ * doesn't arrive in time. A missing camera is reported on the Peer rather than
+ * the call, so a timeout is the only per-call signal for it. Rejected
+ * credentials stop the retries.
+ */
+export function usePeerStream(peer: Peer | null, cameraPeerId: string, credentials: ViewerCredentials) {
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [status, setStatus] = useState<PeerStreamStatus>('connecting');
+    const [deniedReason, setDeniedReason] = useState<string | null>(null);
+    const [attempt, setAttempt] = useState(0);
+    const backoff = useRef(createBackoff());
+    const { token, passphrase } = credentials;
+
+    useEffect(() => {
+        if (!peer || !cameraPeerId) return;
+        let isActive = true;
+        let conn: DataConnection | null = null;
+        let call: MediaConnection | null = null;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const deny = (reason: string) => {
+            isActive = false;
+            if (timer) clearTimeout(timer);
+            call?.close();
+            conn?.close();
+            setStream(null);
+            setStatus('denied');
+            setDeniedReason(reason);
+        };
+
+        const retry = () => {
+            if (!isActive) return;
+            isActive = false;
+            if (timer) clearTimeout(timer);
+            call?.close();
+            conn?.close();
+            setStream(null);
+            setStatus('reconnecting');
+            timer = setTimeout(() => setAttempt(a => a + 1), backoff.current.next());
+        };
+
+        const connect = async () => {
+            if (!isActive) return;
+            timer = setTimeout(retry, CONNECT_TIMEOUT_MS);
+            try {
+                conn = await authenticate(peer, cameraPeerId, { token, passphrase });
+            } catch (err) {
+                if (err instanceof AccessDeniedError) {
+                    deny(err.message);
+                } else {
+                    retry();
+                }
+                return;
+            }
+            if (!isActive) {
+                conn.close();
+                return;
+            }
+            conn.on('data', (data) => {
+                if ((data as CameraMessage).type === 'kicked') deny("O dono da câmera encerrou o acesso.");
+            });
+            conn.on('close', retry);
+
+            call = peer.call(cameraPeerId, new MediaStream());
+            call.on('stream', (remoteStream) => {
+                if (!isActive) return;
+                if (timer) clearTimeout(timer);
+                backoff.current.reset();
+                setStream(remoteStream);
+                setStatus('connected');
+            });
+            call.on('close', retry);
+            call.on('error', retry);
+        };
+
+        if (peer.open) {
+            connect();
+        } else {
+            peer.once('open', connect);
+        }
+
+        return () => {
+            isActive = false;
+            if (timer) clearTimeout(timer);
+            peer.off('open', connect);
+            call?.close();
+            conn?.close();
+        };
+    }, [peer, cameraPeerId, token, passphrase, attempt]);
+
+    return { stream, status, deniedReason };
+}
@@ -0,0 +1,54 @@
+
+import { useCallback, useEffect, useState } from 'react';
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker and reports when a new version has been
+ * installed and is waiting. A camera can stay open for days, so updates are
+ * also checked periodically. The new version only takes over through
+ * `applyUpdate`, which reloads the page once it's in control: reloading
+ * interrupts the monitoring, so that's left to the user.
+ */
+export function useServiceWorker() {
+    const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+    useEffect(() => {
+        if (!('serviceWorker' in navigator)) return;
+        let isActive = true;
+        let interval: ReturnType<typeof setInterval> | null = null;
+
+        // Without a controller this is the first install rather than an update.
+        const offerUpdate = (worker: ServiceWorker) => {
+            if (isActive && navigator.serviceWorker.controller) setWaitingWorker(worker);
+        };
+        const trackInstalling = (worker: ServiceWorker) => {
+            worker.addEventListener('statechange', () => {
+                if (worker.state === 'installed') offerUpdate(worker);
+            });
+        };
+
+        navigator.serviceWorker.register('/sw.js').then(registration => {
+            if (!isActive) return;
+            if (registration.waiting) offerUpdate(registration.waiting);
+            if (registration.installing) trackInstalling(registration.installing);
+            registration.addEventListener('updatefound', () => {
+                if (registration.installing) trackInstalling(registration.installing);
+            });
+            interval = setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL_MS);
+        }).catch(err => console.error("Erro ao registrar o service worker:", err));
+
+        return () => {
+            isActive = false;
+            if (interval) clearInterval(interval);
+        };
+    }, []);
+
+    const applyUpdate = useCallback(() => {
+        if (!waitingWorker) return;
+        navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+        waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+    }, [waitingWorker]);
+
+    return { isUpdateAvailable: Boolean(waitingWorker), applyUpdate };
+}
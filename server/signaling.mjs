@@ -0,0 +1,37 @@
+
+// Minimal PeerJS signaling server for running the cameras on a local network
+// without depending on the public PeerJS broker.
+//
+//   npm run signaling
+//
+// Environment variables:
+//   PORT       listening port (default 9000)
+//   PEER_PATH  path the clients connect to (default "/")
+//   PEER_KEY   API key shared with the clients (default "peerjs")
+//   SSL_KEY / SSL_CERT  paths to a key and certificate to serve over HTTPS,
+//              required when the app itself is served over HTTPS.
+import { readFileSync } from 'node:fs';
+import { networkInterfaces } from 'node:os';
+import { PeerServer } from 'peer';
+
+const port = Number(process.env.PORT) || 9000;
+const path = process.env.PEER_PATH || '/';
+const key = process.env.PEER_KEY || 'peerjs';
+const ssl = process.env.SSL_KEY && process.env.SSL_CERT
+    ? { key: readFileSync(process.env.SSL_KEY, 'utf8'), cert: readFileSync(process.env.SSL_CERT, 'utf8') }
+    : undefined;
+
+const server = PeerServer({ port, path, key, ssl, allow_discovery: false });
+
+server.on('connection', (client) => console.log(`+ ${client.getId()}`));
+server.on('disconnect', (client) => console.log(`- ${client.getId()}`));
+
+const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter(info => info && info.family === 'IPv4' && !info.internal)
+    .map(info => info.address);
+
+console.log(`Servidor de sinalização PeerJS ouvindo na porta ${port} (caminho "${path}", chave "${key}", ${ssl ? 'HTTPS' : 'HTTP'}).`);
+for (const address of addresses) {
+    console.log(`  Configure no app: servidor ${address}, porta ${port}, caminho ${path}${ssl ? ', conexão segura' : ''}`);
+}
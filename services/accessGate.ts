@@ -0,0 +1,245 @@
+
+import type { DataConnection, MediaConnection } from 'peerjs';
+import type { AccessSettings, ConnectedViewer } from '../types';
+import type { CameraMessage, ViewerCredentials, ViewerMessage } from './peerProtocol';
+import { sendMessage } from './peerProtocol';
+import { verifyInviteToken } from './inviteTokens';
+
+// Each connection gets a single auth attempt and is closed after a failure,
+// and a peer that keeps failing is locked out for longer and longer. Peer IDs
+// are chosen by the client, though, so passphrase attempts are also limited
+// for the whole gate: one check at a time, and a backoff after every failure
+// whatever peer it came from. While someone is guessing, passphrase logins
+// wait for everyone; invite tokens can't be guessed and aren't limited.
+const FAILED_AUTH_DELAY_MS = 1000;
+const LOCKOUT_INITIAL_MS = 2000;
+const LOCKOUT_MAX_MS = 5 * 60 * 1000;
+
+interface FailedAttempts {
+    count: number;
+    lockedUntil: number;
+}
+
+interface ViewerSession {
+    conn: DataConnection;
+    calls: Set<MediaConnection>;
+    inviteId: string | null;
+    connectedAt: Date;
+    via: string;
+    canControl: boolean;
+}
+
+// Only the passphrase and invites created with control can send these.
+const CONTROL_MESSAGES: ViewerMessage['type'][] = ['arm', 'disarm', 'switch-camera'];
+
+export interface AccessGateCallbacks {
+    onViewersChange: (viewers: ConnectedViewer[]) => void;
+    onAuthenticated: (peerId: string) => void;
+    /** Any message after the handshake; only authenticated viewers get here, and only with the permission it needs. */
+    onMessage: (peerId: string, message: ViewerMessage) => void;
+}
+
+export interface AccessGate {
+    handleConnection: (conn: DataConnection) => void;
+    /** Returns false, after closing the call, when the caller didn't authenticate. */
+    admitCall: (call: MediaConnection) => boolean;
+    send: (peerId: string, message: CameraMessage) => void;
+    broadcast: (message: CameraMessage) => void;
+    /**
+     * Moves live calls onto a new camera stream with replaceTrack, so viewers
+     * keep watching. Calls whose track kinds change (the microphone was turned
+     * on or off) can't be updated without renegotiating; those are closed and
+     * the viewers call again.
+     */
+    replaceStream: (stream: MediaStream) => Promise<void>;
+    /** Hangs up every media call; the viewers stay connected and can call again. */
+    closeCalls: () => void;
+    kick: (peerId: string) => void;
+    kickInvite: (inviteId: string) => void;
+    dispose: () => void;
+}
+
+const encoder = new TextEncoder();
+
+/** Compares in time that depends only on the lengths, not on where the strings differ. */
+function constantTimeEquals(a: string, b: string): boolean {
+    const x = encoder.encode(a);
+    const y = encoder.encode(b);
+    let diff = x.length ^ y.length;
+    for (let i = 0; i < Math.max(x.length, y.length); i++) {
+        diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+    }
+    return diff === 0;
+}
+
+export function createAccessGate(getSettings: () => AccessSettings, callbacks: AccessGateCallbacks): AccessGate {
+    const sessions = new Map<string, ViewerSession>();
+    const failures = new Map<string, FailedAttempts>();
+    const pendingAuth = new Set<string>(); // peers with an attempt being checked
+    const passphraseFailures: FailedAttempts = { count: 0, lockedUntil: 0 };
+    let isCheckingPassphrase = false;
+
+    const notify = () => {
+        callbacks.onViewersChange([...sessions.entries()].map(([peerId, session]) => ({
+            peerId,
+            connectedAt: session.connectedAt,
+            via: session.via,
+            isWatching: session.calls.size > 0,
+        })));
+    };
+
+
+    const endSession = (peerId: string) => {
+        const session = sessions.get(peerId);
+        if (!session) return;
+        sessions.delete(peerId);
+        session.calls.forEach(call => call.close());
+        session.conn.close();
+        notify();
+    };
+
+    const authorize = async (message: ViewerCredentials): Promise<{ inviteId: string | null; via: string; canControl: boolean } | null> => {
+        const settings = getSettings();
+        if (message.token) {
+            const invite = await verifyInviteToken(settings, message.token);
+            if (invite) return { inviteId: invite.id, via: invite.label || 'Convite', canControl: Boolean(invite.canControl) };
+        }
+        if (message.passphrase && settings.passphrase && constantTimeEquals(message.passphrase, settings.passphrase)) {
+            return { inviteId: null, via: 'Senha', canControl: true };
+        }
+        return null;
+    };
+
+    const recordFailure = (peerId: string) => {
+        const now = Date.now();
+        failures.forEach((entry, id) => {
+            if (entry.lockedUntil + LOCKOUT_MAX_MS < now) failures.delete(id);
+        });
+        const count = (failures.get(peerId)?.count ?? 0) + 1;
+        failures.set(peerId, { count, lockedUntil: now + Math.min(LOCKOUT_INITIAL_MS * 2 ** (count - 1), LOCKOUT_MAX_MS) });
+    };
+
+    const recordPassphraseFailure = () => {
+        const now = Date.now();
+        // A quiet period forgives earlier mistakes.
+        if (passphraseFailures.lockedUntil + LOCKOUT_MAX_MS < now) passphraseFailures.count = 0;
+        passphraseFailures.count++;
+        passphraseFailures.lockedUntil = now + Math.min(LOCKOUT_INITIAL_MS * 2 ** (passphraseFailures.count - 1), LOCKOUT_MAX_MS);
+    };
+
+    const refuse = (conn: DataConnection, reason: string) => {
+        setTimeout(() => {
+            sendMessage(conn, { type: 'auth-failed', reason });
+            setTimeout(() => conn.close(), 200);
+        }, FAILED_AUTH_DELAY_MS);
+    };
+
+    const handleConnection = (conn: DataConnection) => {
+        let hasAttempted = false;
+        conn.on('data', async (data) => {
+            const message = data as ViewerMessage;
+            const session = sessions.get(conn.peer);
+            if (session?.conn === conn) {
+                if (message?.type === 'auth') return;
+                if (CONTROL_MESSAGES.includes(message?.type) && !session.canControl) {
+                    sendMessage(conn, { type: 'error', message: "Este convite só permite assistir." });
+                    return;
+                }
+                callbacks.onMessage(conn.peer, message);
+                return;
+            }
+            if (message?.type !== 'auth' || hasAttempted) return;
+            hasAttempted = true;
+            const usesPassphrase = Boolean(message.passphrase);
+            const lockedUntil = Math.max(failures.get(conn.peer)?.lockedUntil ?? 0, usesPassphrase ? passphraseFailures.lockedUntil : 0);
+            const lockedFor = lockedUntil - Date.now();
+            if (lockedFor > 0 || pendingAuth.has(conn.peer) || (usesPassphrase && isCheckingPassphrase)) {
+                refuse(conn, `Muitas tentativas. Tente novamente em ${Math.max(1, Math.ceil(lockedFor / 1000))} s.`);
+                return;
+            }
+            pendingAuth.add(conn.peer);
+            if (usesPassphrase) isCheckingPassphrase = true;
+            const grant = await authorize(message).finally(() => {
+                pendingAuth.delete(conn.peer);
+                if (usesPassphrase) isCheckingPassphrase = false;
+            });
+            if (!grant) {
+                recordFailure(conn.peer);
+                if (usesPassphrase) recordPassphraseFailure();
+                refuse(conn, message.token ? "Convite inválido, expirado ou revogado." : "Senha incorreta.");
+                return;
+            }
+            failures.delete(conn.peer);
+            if (grant.inviteId === null) passphraseFailures.count = 0;
+            endSession(conn.peer);
+            sessions.set(conn.peer, { conn, calls: new Set(), connectedAt: new Date(), ...grant });
+            sendMessage(conn, { type: 'auth-ok' });
+            notify();
+            callbacks.onAuthenticated(conn.peer);
+        });
+        conn.on('close', () => {
+            if (sessions.get(conn.peer)?.conn === conn) endSession(conn.peer);
+        });
+    };
+
+    const admitCall = (call: MediaConnection): boolean => {
+        const session = sessions.get(call.peer);
+        if (!session) {
+            call.close();
+            return false;
+        }
+        session.calls.add(call);
+        call.on('close', () => {
+            session.calls.delete(call);
+            notify();
+        });
+        notify();
+        return true;
+    };
+
+    const kick = (peerId: string) => {
+        const session = sessions.get(peerId);
+        if (!session) return;
+        sendMessage(session.conn, { type: 'kicked' });
+        // Give the message a moment to leave before tearing the connection down.
+        setTimeout(() => endSession(peerId), 200);
+    };
+
+    return {
+        handleConnection,
+        admitCall,
+        send: (peerId, message) => {
+            const session = sessions.get(peerId);
+            if (session) sendMessage(session.conn, message);
+        },
+        broadcast: (message) => {
+            sessions.forEach(session => sendMessage(session.conn, message));
+        },
+        replaceStream: async (stream) => {
+            const kindsOf = (tracks: MediaStreamTrack[]) => tracks.map(t => t.kind).sort().join();
+            const swaps: Promise<unknown>[] = [];
+            sessions.forEach(session => session.calls.forEach(call => {
+                const senders = call.peerConnection?.getSenders().filter(sender => sender.track) ?? [];
+                if (kindsOf(senders.map(sender => sender.track!)) !== kindsOf(stream.getTracks())) {
+                    call.close();
+                    return;
+                }
+                swaps.push(Promise.all(senders.map(sender => sender.replaceTrack(stream.getTracks().find(t => t.kind === sender.track!.kind)!)))
+                    .catch(() => call.close()));
+            }));
+            await Promise.all(swaps);
+        },
+        closeCalls: () => {
+            sessions.forEach(session => session.calls.forEach(call => call.close()));
+        },
+        kick,
+        kickInvite: (inviteId) => {
+            sessions.forEach((session, peerId) => {
+                if (session.inviteId === inviteId) kick(peerId);
+            });
+        },
+        dispose: () => {
+            [...sessions.keys()].forEach(endSession);
+        },
+    };
+}
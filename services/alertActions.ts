@@ -0,0 +1,75 @@
+
+import type { AlertRule, DetectionEvent } from '../types';
+import { serializeEvent } from './eventSerialization';
+import { deliver } from './outbox';
+
+let audioContext: AudioContext | null = null;
+
+export function isNotificationSupported(): boolean {
+    return 'Notification' in window;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+    if (!isNotificationSupported()) return 'denied';
+    return Notification.requestPermission();
+}
+
+// Shown through the service worker when possible: it works with the tab in the
+// background on mobile, and its click handler can bring the app back.
+export async function showNotification(title: string, options: NotificationOptions): Promise<void> {
+    if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+        await registration.showNotification(title, { icon: '/icon-192.svg', ...options });
+    } else {
+        new Notification(title, { icon: '/icon-192.svg', ...options });
+    }
+}
+
+function notifyRule(rule: AlertRule, event: DetectionEvent): Promise<void> {
+    return showNotification(`Vigilância IA: ${rule.name}`, {
+        body: event.analysis || `Movimento detectado${event.zoneName ? ` em ${event.zoneName}` : ''}.`,
+        tag: `rule-${rule.id}`,
+        data: { eventId: event.id },
+    });
+}
+
+/** Plays a two-tone siren for a few seconds using WebAudio, so no audio asset is needed. */
+export async function playAlarm(durationSeconds = 3): Promise<void> {
+    audioContext ??= new AudioContext();
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    const ctx = audioContext;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'square';
+    gain.gain.value = 0.2;
+    for (let t = 0; t < durationSeconds; t += 0.5) {
+        oscillator.frequency.setValueAtTime(t % 1 === 0 ? 880 : 660, ctx.currentTime + t);
+    }
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start();
+    oscillator.stop(ctx.currentTime + durationSeconds);
+}
+
+// Queued in the outbox when the endpoint can't be reached, so alerts raised
+// while offline still arrive once the connection returns.
+async function sendWebhook(rule: AlertRule, event: DetectionEvent, snapshotDataUrl: string): Promise<void> {
+    const body = JSON.stringify({
+        rule: { id: rule.id, name: rule.name },
+        event: serializeEvent(event),
+        snapshot: snapshotDataUrl,
+    });
+    await deliver(rule.webhookUrl, body, `Webhook "${rule.name}"`);
+}
+
+/** Runs every action of the rule; a failing action doesn't stop the others. */
+export async function runAlertActions(rule: AlertRule, event: DetectionEvent, snapshotDataUrl: string): Promise<void> {
+    const actions: Promise<void>[] = [];
+    if (rule.notify) actions.push(notifyRule(rule, event));
+    if (rule.sound) actions.push(playAlarm());
+    if (rule.webhookUrl) actions.push(sendWebhook(rule, event, snapshotDataUrl));
+    const results = await Promise.allSettled(actions);
+    results.forEach(result => {
+        if (result.status === 'rejected') console.error(`Erro ao executar alerta "${rule.name}":`, result.reason);
+    });
+}
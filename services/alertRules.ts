@@ -0,0 +1,71 @@
+
+import type { AlertRule, DetectionEvent } from '../types';
+import { THREAT_LEVELS } from './analysisSchema';
+import { eventText, normalizeText } from './eventFilters';
+
+export function createAlertRule(): AlertRule {
+    return {
+        id: Date.now().toString(),
+        name: 'Nova regra',
+        enabled: true,
+        keywords: '',
+        classes: [],
+        minThreatLevel: 'none',
+        startTime: '',
+        endTime: '',
+        cooldownSeconds: 60,
+        ignoreKnown: false,
+        escalateUnknown: false,
+        notify: true,
+        sound: false,
+        webhookUrl: '',
+    };
+}
+
+export function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+export function isWithinTimeWindow(rule: AlertRule, date: Date): boolean {
+    if (!rule.startTime || !rule.endTime) return true;
+    const now = date.getHours() * 60 + date.getMinutes();
+    const start = toMinutes(rule.startTime);
+    const end = toMinutes(rule.endTime);
+    // Equal times mean all day, as in the arming schedule.
+    if (start === end) return true;
+    // A window like 22:00–06:00 wraps around midnight.
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+export function matchesRule(rule: AlertRule, event: DetectionEvent): boolean {
+    if (!rule.enabled || !isWithinTimeWindow(rule, event.timestamp)) return false;
+
+    const keywords = rule.keywords.split(',').map(k => normalizeText(k.trim())).filter(Boolean);
+    if (keywords.length > 0) {
+        const text = eventText(event);
+        if (!keywords.some(keyword => text.includes(keyword))) return false;
+    }
+    if (rule.classes.length > 0 && !event.detectedClasses?.some(c => rule.classes.includes(c))) return false;
+    if (rule.ignoreKnown && event.recognition === 'known') return false;
+    if (rule.minThreatLevel !== 'none') {
+        if (!event.threatLevel) return false;
+        const escalation = rule.escalateUnknown && event.recognition === 'unknown' ? 1 : 0;
+        if (THREAT_LEVELS.indexOf(event.threatLevel) + escalation < THREAT_LEVELS.indexOf(rule.minThreatLevel)) return false;
+    }
+    return true;
+}
+
+/**
+ * Returns the rules that match the event and are out of their cooldown,
+ * recording the firing time in `lastFired`.
+ */
+export function evaluateRules(rules: AlertRule[], event: DetectionEvent, lastFired: Map<string, number>): AlertRule[] {
+    const now = Date.now();
+    return rules.filter(rule => {
+        if (!matchesRule(rule, event)) return false;
+        if (now - (lastFired.get(rule.id) ?? 0) < rule.cooldownSeconds * 1000) return false;
+        lastFired.set(rule.id, now);
+        return true;
+    });
+}
@@ -0,0 +1,187 @@
+
+import type { AnalysisQueueSettings, AnalysisUsageDay, WatchlistEntry } from '../types';
+import type { AnalyzerResult, AnalyzerUsage, ImageAnalyzer, TextResult } from './imageAnalyzer';
+import { createBackoff } from './reconnect';
+import type { Backoff } from './reconnect';
+import { getDayUsage, loadUsage, recordRequest } from './analysisUsage';
+
+// Every AI request goes through here so busy scenes can't exceed the
+// configured concurrency and budgets. Failed analyses are retried with
+// backoff; remote analyzers also wait while the browser is offline. Questions
+// about the events are interactive: they fail right away instead. Budgets
+// and usage only apply to remote analyzers, the local one costs nothing.
+
+export class AnalysisBudgetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AnalysisBudgetError';
+    }
+}
+
+export interface AnalysisQueueState {
+    pending: number;
+    running: number;
+    waitingReason: string | null; // why pending jobs aren't starting
+}
+
+export interface AnalysisQueue {
+    submit: (imageDataUrls: string[], watchlist?: WatchlistEntry[]) => Promise<AnalyzerResult>;
+    generateText: (prompt: string, json: boolean) => Promise<TextResult>;
+    configure: (settings: AnalysisQueueSettings, analyzer: ImageAnalyzer | null) => void;
+    dispose: () => void;
+}
+
+interface AnalysisQueueCallbacks {
+    onStateChange?: (state: AnalysisQueueState) => void;
+    onUsage?: (usage: AnalysisUsageDay[]) => void;
+}
+
+interface Job {
+    run: (analyzer: ImageAnalyzer) => Promise<AnalyzerUsage | undefined>; // resolves the caller's promise
+    isInteractive: boolean; // someone is waiting: no retries, no waiting for the connection
+    attempts: number;
+    notBefore: number;
+    backoff: Backoff;
+    reject: (error: Error) => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+const RETRY_INITIAL_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+export const DEFAULT_ANALYSIS_QUEUE_SETTINGS: AnalysisQueueSettings = {
+    concurrency: 2,
+    maxPerMinute: 10,
+    maxPerDay: 500,
+    maxRetries: 3,
+    batchFrames: 1,
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0,
+};
+
+export function createAnalysisQueue(initialSettings: AnalysisQueueSettings, initialAnalyzer: ImageAnalyzer | null, callbacks: AnalysisQueueCallbacks = {}): AnalysisQueue {
+    let settings = initialSettings;
+    let analyzer = initialAnalyzer;
+    const pending: Job[] = [];
+    const recentStarts: number[] = [];
+    let running = 0;
+    let waitingReason: string | null = null;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    let isDisposed = false;
+
+    const notify = () => callbacks.onStateChange?.({ pending: pending.length, running, waitingReason });
+
+    const rejectAll = (error: Error, shouldReject: (job: Job) => boolean = () => true) => {
+        const rejected = pending.filter(shouldReject);
+        rejected.forEach(job => pending.splice(pending.indexOf(job), 1));
+        rejected.forEach(job => job.reject(error));
+    };
+
+    const scheduleWake = (at: number) => {
+        if (wakeTimer) clearTimeout(wakeTimer);
+        wakeTimer = setTimeout(() => {
+            wakeTimer = null;
+            pump();
+        }, Math.max(0, at - Date.now()));
+    };
+
+    const run = async (job: Job, current: ImageAnalyzer) => {
+        running++;
+        job.attempts++;
+        try {
+            const usage = await job.run(current);
+            if (current.isRemote) callbacks.onUsage?.(recordRequest(true, usage));
+        } catch (error) {
+            if (current.isRemote) callbacks.onUsage?.(recordRequest(false));
+            if (job.attempts > settings.maxRetries || job.isInteractive || isDisposed) {
+                job.reject(error instanceof Error ? error : new Error(String(error)));
+            } else {
+                job.notBefore = Date.now() + job.backoff.next();
+                pending.unshift(job);
+            }
+        } finally {
+            running--;
+            pump();
+        }
+    };
+
+    function pump() {
+        if (isDisposed) return;
+        waitingReason = null;
+        if (!analyzer) {
+            rejectAll(new Error("Nenhum provedor de IA configurado."));
+            notify();
+            return;
+        }
+        if (analyzer.isRemote && !navigator.onLine) {
+            rejectAll(new Error("Sem conexão com a internet."), job => job.isInteractive);
+        }
+        const now = Date.now();
+        while (recentStarts.length > 0 && recentStarts[0] <= now - MINUTE_MS) recentStarts.shift();
+
+        while (running < settings.concurrency && pending.length > 0) {
+            if (analyzer.isRemote && !navigator.onLine) {
+                waitingReason = "Sem conexão com a internet.";
+                break;
+            }
+            if (analyzer.isRemote && settings.maxPerDay > 0 && getDayUsage(loadUsage()).requests + running >= settings.maxPerDay) {
+                rejectAll(new AnalysisBudgetError(`Limite diário de ${settings.maxPerDay} análises atingido.`));
+                break;
+            }
+            if (analyzer.isRemote && settings.maxPerMinute > 0 && recentStarts.length >= settings.maxPerMinute) {
+                waitingReason = `Limite de ${settings.maxPerMinute} análises por minuto atingido.`;
+                scheduleWake(recentStarts[0] + MINUTE_MS);
+                break;
+            }
+            const index = pending.findIndex(job => job.notBefore <= now);
+            if (index === -1) {
+                waitingReason = "Aguardando nova tentativa.";
+                scheduleWake(Math.min(...pending.map(job => job.notBefore)));
+                break;
+            }
+            const [job] = pending.splice(index, 1);
+            if (analyzer.isRemote) recentStarts.push(now);
+            run(job, analyzer);
+        }
+        notify();
+    }
+
+    const enqueue = <T extends { usage?: AnalyzerUsage }>(execute: (analyzer: ImageAnalyzer) => Promise<T>, isInteractive: boolean) => new Promise<T>((resolve, reject) => {
+        if (isDisposed) {
+            reject(new Error("A fila de análise foi encerrada."));
+            return;
+        }
+        const run = async (current: ImageAnalyzer) => {
+            const result = await execute(current);
+            resolve(result);
+            return result.usage;
+        };
+        pending.push({ run, isInteractive, attempts: 0, notBefore: 0, backoff: createBackoff(RETRY_INITIAL_MS, RETRY_MAX_MS), reject });
+        pump();
+    });
+
+    const handleOnline = () => pump();
+    window.addEventListener('online', handleOnline);
+
+    return {
+        submit: (imageDataUrls, watchlist = []) => enqueue(current => current.analyze(imageDataUrls, watchlist), false),
+        generateText: (prompt, json) => {
+            if (!analyzer?.generateText) return Promise.reject(new Error("O provedor de IA selecionado não responde perguntas."));
+            return enqueue(current => {
+                if (!current.generateText) throw new Error("O provedor de IA selecionado não responde perguntas.");
+                return current.generateText(prompt, json);
+            }, true);
+        },
+        configure: (nextSettings, nextAnalyzer) => {
+            settings = nextSettings;
+            analyzer = nextAnalyzer;
+            pump();
+        },
+        dispose: () => {
+            isDisposed = true;
+            if (wakeTimer) clearTimeout(wakeTimer);
+            window.removeEventListener('online', handleOnline);
+            rejectAll(new Error("A fila de análise foi encerrada."));
+        },
+    };
+}
@@ -0,0 +1,61 @@
+
+import type { ImageAnalysis, ObjectClass, ThreatLevel, WatchlistEntry } from '../types';
+import { OBJECT_CLASS_LABELS } from '../components/analysisLabels';
+
+export const THREAT_LEVELS: ThreatLevel[] = ['none', 'low', 'medium', 'high'];
+export const OBJECT_CLASSES: ObjectClass[] = ['person', 'vehicle', 'animal', 'package', 'other'];
+
+export const ANALYSIS_PROMPT = "Analise esta imagem de uma câmera de segurança. Identifique pessoas, veículos, animais, pacotes ou outros objetos significativos, avalie o nível de ameaça e descreva o que está acontecendo. Seja conciso e direto.";
+
+const BATCH_PROMPT = "As imagens são quadros sequenciais do mesmo evento, em ordem cronológica. Analise-as em conjunto e descreva o que acontece ao longo delas.";
+
+function analysisPrompt(frameCount: number): string {
+    return frameCount > 1 ? `${ANALYSIS_PROMPT} ${BATCH_PROMPT}` : ANALYSIS_PROMPT;
+}
+
+const WATCHLIST_PROMPT = "Antes do evento vêm imagens de referência de pessoas, veículos e animais conhecidos, cada grupo com seu rótulo. Compare cada pessoa, veículo e animal visível no evento com as referências: em knownSubjects liste os rótulos reconhecidos com segurança e em unknownSubjects conte os que não correspondem a nenhuma referência. Na dúvida, conte como desconhecido.";
+
+export type AnalysisContent = { text: string } | { imageDataUrl: string };
+
+/**
+ * The prompt, reference images and event frames in the order the model sees
+ * them. Providers map these to their own message parts.
+ */
+export function buildAnalysisContent(frames: string[], watchlist: WatchlistEntry[]): AnalysisContent[] {
+    if (watchlist.length === 0) {
+        return [{ text: analysisPrompt(frames.length) }, ...frames.map(imageDataUrl => ({ imageDataUrl }))];
+    }
+    return [
+        { text: `${analysisPrompt(frames.length)} ${WATCHLIST_PROMPT}` },
+        ...watchlist.flatMap(entry => [
+            { text: `Referência "${entry.label}" (${OBJECT_CLASS_LABELS[entry.kind].toLowerCase()}):` },
+            ...entry.images.map(imageDataUrl => ({ imageDataUrl })),
+        ]),
+        { text: frames.length > 1 ? "Quadros do evento:" : "Imagem do evento:" },
+        ...frames.map(imageDataUrl => ({ imageDataUrl })),
+    ];
+}
+
+// For providers without native schema support the shape is spelled out in the prompt.
+export const ANALYSIS_JSON_INSTRUCTIONS = `Responda somente com um objeto JSON no formato:
+{"summary": string (descrição curta em português), "classes": array com valores entre ${OBJECT_CLASSES.map(c => `"${c}"`).join(', ')}, "objectCount": inteiro, "threatLevel": um de ${THREAT_LEVELS.map(t => `"${t}"`).join(', ')}, "confidence": número de 0 a 1, "knownSubjects": array de rótulos de referência (vazio sem referências), "unknownSubjects": inteiro}`;
+
+// Model output is untrusted even when a schema was requested. Recognition is
+// only read when references were sent, and only for labels that exist.
+export function parseAnalysis(text: string, watchlistLabels: string[] = []): ImageAnalysis {
+    const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+    const raw = JSON.parse(json);
+    const classes: ObjectClass[] = Array.isArray(raw.classes) ? raw.classes.filter((c: unknown): c is ObjectClass => OBJECT_CLASSES.includes(c as ObjectClass)) : [];
+    return {
+        threatLevel: THREAT_LEVELS.includes(raw.threatLevel) ? raw.threatLevel : 'none',
+        classes: [...new Set(classes)],
+        objectCount: Math.max(0, Math.round(Number(raw.objectCount) || 0)),
+        summary: typeof raw.summary === 'string' ? raw.summary : '',
+        confidence: Math.min(1, Math.max(0, Number(raw.confidence) || 0)),
+        ...(watchlistLabels.length > 0 ? {
+            knownSubjects: watchlistLabels.filter(label => Array.isArray(raw.knownSubjects)
+                && raw.knownSubjects.some((known: unknown) => typeof known === 'string' && known.trim().toLowerCase() === label.toLowerCase())),
+            unknownSubjects: Math.max(0, Math.round(Number(raw.unknownSubjects) || 0)),
+        } : {}),
+    };
+}
@@ -0,0 +1,46 @@
+
+import type { AnalysisQueueSettings, AnalysisUsageDay } from '../types';
+import type { AnalyzerUsage } from './imageAnalyzer';
+import { loadSetting, saveSetting } from './settings';
+
+const STORAGE_KEY = 'analysisUsage';
+const KEEP_DAYS = 30;
+
+/** Local calendar day as yyyy-mm-dd, so usage resets at local midnight. */
+export function dayKey(date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyDay(date: string): AnalysisUsageDay {
+    return { date, requests: 0, failures: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+/** Usage per day, newest first. */
+export function loadUsage(): AnalysisUsageDay[] {
+    return loadSetting<AnalysisUsageDay[]>(STORAGE_KEY, []);
+}
+
+export function getDayUsage(usage: AnalysisUsageDay[], date = dayKey()): AnalysisUsageDay {
+    return usage.find(day => day.date === date) ?? emptyDay(date);
+}
+
+/** Adds one request to today's totals and returns the updated history. */
+export function recordRequest(succeeded: boolean, tokens?: AnalyzerUsage): AnalysisUsageDay[] {
+    const usage = loadUsage();
+    const today = getDayUsage(usage);
+    const updated: AnalysisUsageDay = {
+        ...today,
+        requests: today.requests + 1,
+        failures: today.failures + (succeeded ? 0 : 1),
+        inputTokens: today.inputTokens + (tokens?.inputTokens ?? 0),
+        outputTokens: today.outputTokens + (tokens?.outputTokens ?? 0),
+    };
+    const history = [updated, ...usage.filter(day => day.date !== today.date)].slice(0, KEEP_DAYS);
+    saveSetting(STORAGE_KEY, history);
+    return history;
+}
+
+export function estimateCost(day: AnalysisUsageDay, settings: AnalysisQueueSettings): number {
+    return (day.inputTokens * settings.inputPricePerMillion + day.outputTokens * settings.outputPricePerMillion) / 1_000_000;
+}
@@ -0,0 +1,98 @@
+
+import type { ArmingProfile, ArmingSettings, MotionSettings, ProfileMotionSettings, ScheduleEntry } from '../types';
+import { toMinutes } from './alertRules';
+
+export const DAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+let nextId = 0;
+const createId = () => `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+export function pickProfileMotion({ sensitivity, minAreaPercent, cooldownSeconds }: MotionSettings): ProfileMotionSettings {
+    return { sensitivity, minAreaPercent, cooldownSeconds };
+}
+
+export function createProfile(name: string, motion: MotionSettings, armed = true): ArmingProfile {
+    return { id: createId(), name, armed, motion: pickProfileMotion(motion), disabledZoneIds: [], disabledRuleIds: [] };
+}
+
+export function createScheduleEntry(profileId: string): ScheduleEntry {
+    return { id: createId(), profileId, days: WEEKDAYS, startTime: '08:00', endTime: '18:00' };
+}
+
+// The schedule starts out disabled, with the usual away/night windows filled in.
+export function createDefaultArmingSettings(motion: MotionSettings): ArmingSettings {
+    const home = createProfile('Casa', motion, false);
+    const away = createProfile('Fora', motion);
+    const night = createProfile('Noite', { ...motion, sensitivity: Math.min(100, motion.sensitivity + 15) });
+    return {
+        profiles: [home, away, night],
+        schedule: [
+            createScheduleEntry(away.id),
+            { ...createScheduleEntry(night.id), days: ALL_DAYS, startTime: '23:00', endTime: '06:00' },
+        ],
+        scheduleEnabled: false,
+        defaultProfileId: home.id,
+    };
+}
+
+export function getProfile(settings: ArmingSettings, profileId: string | null): ArmingProfile {
+    return settings.profiles.find(p => p.id === profileId) ?? settings.profiles.find(p => p.id === settings.defaultProfileId) ?? settings.profiles[0];
+}
+
+function isEntryActive(entry: ScheduleEntry, date: Date): boolean {
+    const now = date.getHours() * 60 + date.getMinutes();
+    const day = date.getDay();
+    const start = toMinutes(entry.startTime);
+    const end = toMinutes(entry.endTime);
+    if (start === end) return entry.days.includes(day);
+    if (start < end) return entry.days.includes(day) && now >= start && now < end;
+    // Past midnight, the entry still belongs to the day it started.
+    return (entry.days.includes(day) && now >= start) || (entry.days.includes((day + 6) % 7) && now < end);
+}
+
+/** The first matching entry wins when entries overlap. */
+export function getScheduledProfileId(settings: ArmingSettings, date: Date): string {
+    const entry = settings.schedule.find(e => settings.profiles.some(p => p.id === e.profileId) && isEntryActive(e, date));
+    return entry?.profileId ?? settings.defaultProfileId;
+}
+
+/** Finds the next time within a week when the schedule switches to a different profile. */
+export function getNextScheduledChange(settings: ArmingSettings, from: Date): { at: Date; profile: ArmingProfile } | null {
+    if (!settings.scheduleEnabled || settings.schedule.length === 0) return null;
+    const current = getScheduledProfileId(settings, from);
+    const midnight = new Date(from);
+    midnight.setHours(0, 0, 0, 0);
+
+    // Profiles can only change where some entry starts or ends.
+    const boundaries: Date[] = [];
+    for (let offset = -1; offset <= 7; offset++) {
+        const day = new Date(midnight);
+        day.setDate(day.getDate() + offset);
+        for (const entry of settings.schedule) {
+            if (!entry.days.includes(day.getDay())) continue;
+            const start = toMinutes(entry.startTime);
+            const end = toMinutes(entry.endTime);
+            // A cleared time field leaves the entry inactive, with no boundaries.
+            if (isNaN(start) || isNaN(end)) continue;
+            if (start === end) {
+                // All-day entries cover the calendar day, midnight to midnight.
+                boundaries.push(new Date(day.getFullYear(), day.getMonth(), day.getDate()));
+                boundaries.push(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1));
+                continue;
+            }
+            boundaries.push(new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, start));
+            boundaries.push(new Date(day.getFullYear(), day.getMonth(), day.getDate() + (end < start ? 1 : 0), 0, end));
+        }
+    }
+    boundaries.sort((a, b) => a.getTime() - b.getTime());
+
+    for (const at of boundaries) {
+        if (at <= from) continue;
+        const profileId = getScheduledProfileId(settings, at);
+        if (profileId !== current) return { at, profile: getProfile(settings, profileId) };
+    }
+    return null;
+}
@@ -0,0 +1,111 @@
+
+import type { AudioSettings } from '../types';
+
+// Levels are polled from an AnalyserNode rather than processed in an
+// AudioWorklet: a 50 ms window is plenty for a loudness threshold, and the
+// node keeps working when the tab is in the background. The analyser's buffer
+// is sized to hold at least two poll intervals, so consecutive reads overlap
+// and the history kept for the classifier is continuous.
+
+export interface AudioTrigger {
+    levelDb: number;
+    samples: Float32Array; // the last second of audio, for the sound classifier
+    sampleRate: number;
+}
+
+export interface AudioDetector {
+    configure: (settings: AudioSettings) => void;
+    dispose: () => void;
+}
+
+interface AudioDetectorCallbacks {
+    onTrigger: (trigger: AudioTrigger) => void;
+    onLevel?: (levelDb: number) => void;
+}
+
+const POLL_INTERVAL_MS = 50;
+const SILENCE_DB = -100;
+
+export function isAudioDetectionSupported(): boolean {
+    return typeof AudioContext !== 'undefined' && typeof AnalyserNode !== 'undefined';
+}
+
+export function toDb(amplitude: number): number {
+    return amplitude > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(amplitude)) : SILENCE_DB;
+}
+
+export function createAudioDetector(stream: MediaStream, initialSettings: AudioSettings, callbacks: AudioDetectorCallbacks): AudioDetector {
+    let settings = initialSettings;
+    const context = new AudioContext();
+    // Monitoring can start from the schedule, without a user gesture.
+    context.resume().catch(() => {});
+    const source = context.createMediaStreamSource(new MediaStream(stream.getAudioTracks()));
+    const analyser = context.createAnalyser();
+    const samplesPerPoll = Math.round(POLL_INTERVAL_MS / 1000 * context.sampleRate);
+    // fftSize must be a power of two, at most 32768.
+    analyser.fftSize = Math.min(32768, 2 ** Math.ceil(Math.log2(samplesPerPoll * 2)));
+    source.connect(analyser);
+
+    const frame = new Float32Array(analyser.fftSize);
+    const levelWindow = frame.subarray(frame.length - Math.min(samplesPerPoll, frame.length));
+    const history = new Float32Array(context.sampleRate);
+    let historyEnd = 0;
+    let lastPoll = performance.now();
+    let aboveSince: number | null = null;
+    let lastTrigger = 0;
+
+    const appendHistory = (samples: Float32Array) => {
+        for (let i = 0; i < samples.length; i++) {
+            history[historyEnd] = samples[i];
+            historyEnd = (historyEnd + 1) % history.length;
+        }
+    };
+
+    const snapshotHistory = (): Float32Array => {
+        const ordered = new Float32Array(history.length);
+        ordered.set(history.subarray(historyEnd));
+        ordered.set(history.subarray(0, historyEnd), history.length - historyEnd);
+        return ordered;
+    };
+
+    const poll = () => {
+        const now = performance.now();
+        analyser.getFloatTimeDomainData(frame);
+        // Only the samples that arrived since the last poll are new. Polls more
+        // than a buffer apart (a throttled background tab) leave a small gap in
+        // the history, which the classifier tolerates.
+        const fresh = Math.min(frame.length, Math.round((now - lastPoll) / 1000 * context.sampleRate));
+        appendHistory(frame.subarray(frame.length - fresh));
+        lastPoll = now;
+
+        let sumSquares = 0;
+        let peak = 0;
+        for (let i = 0; i < levelWindow.length; i++) {
+            sumSquares += levelWindow[i] * levelWindow[i];
+            peak = Math.max(peak, Math.abs(levelWindow[i]));
+        }
+        const levelDb = toDb(settings.mode === 'peak' ? peak : Math.sqrt(sumSquares / levelWindow.length));
+        callbacks.onLevel?.(levelDb);
+
+        if (levelDb < settings.thresholdDb) {
+            aboveSince = null;
+            return;
+        }
+        aboveSince ??= now;
+        if (now - aboveSince < settings.minDurationMs || now - lastTrigger < settings.cooldownSeconds * 1000) return;
+        lastTrigger = now;
+        aboveSince = null;
+        callbacks.onTrigger({ levelDb, samples: snapshotHistory(), sampleRate: context.sampleRate });
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+
+    return {
+        configure: (next) => { settings = next; },
+        dispose: () => {
+            clearInterval(timer);
+            source.disconnect();
+            context.close().catch(() => {});
+        },
+    };
+}
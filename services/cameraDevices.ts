@@ -0,0 +1,128 @@
+
+import type { CameraSettings } from '../types';
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+    videoDeviceId: '',
+    facingMode: 'environment',
+    resolution: '',
+    frameRate: 0,
+    audioEnabled: false,
+    audioDeviceId: '',
+    torch: false,
+    zoom: null,
+    focusMode: '',
+    focusDistance: null,
+};
+
+export const RESOLUTION_OPTIONS: { label: string; value: string }[] = [
+    { label: 'Automática', value: '' },
+    { label: '480p (640x480)', value: '640x480' },
+    { label: '720p (1280x720)', value: '1280x720' },
+    { label: '1080p (1920x1080)', value: '1920x1080' },
+    { label: '4K (3840x2160)', value: '3840x2160' },
+];
+
+export const FRAME_RATE_OPTIONS = [0, 10, 15, 24, 30, 60];
+
+export interface Range {
+    min: number;
+    max: number;
+    step: number;
+}
+
+/** The optional camera controls a video track actually supports. */
+export interface TrackControls {
+    torch: boolean;
+    zoom: Range | null;
+    focusModes: string[];
+    focusDistance: Range | null;
+}
+
+export interface AvailableDevices {
+    video: MediaDeviceInfo[];
+    audio: MediaDeviceInfo[];
+}
+
+export async function listDevices(): Promise<AvailableDevices> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+        video: devices.filter(d => d.kind === 'videoinput' && d.deviceId),
+        audio: devices.filter(d => d.kind === 'audioinput' && d.deviceId),
+    };
+}
+
+export function buildConstraints(settings: CameraSettings): MediaStreamConstraints {
+    const video: MediaTrackConstraints = settings.videoDeviceId
+        ? { deviceId: { exact: settings.videoDeviceId } }
+        : { facingMode: settings.facingMode };
+    if (settings.resolution) {
+        const [width, height] = settings.resolution.split('x').map(Number);
+        video.width = { ideal: width };
+        video.height = { ideal: height };
+    }
+    if (settings.frameRate > 0) video.frameRate = { ideal: settings.frameRate };
+    const audio: boolean | MediaTrackConstraints = settings.audioEnabled
+        ? (settings.audioDeviceId ? { deviceId: { exact: settings.audioDeviceId } } : true)
+        : false;
+    return { video, audio };
+}
+
+export async function openCameraStream(settings: CameraSettings): Promise<MediaStream> {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        throw new Error("A API da câmera não é suportada neste navegador.");
+    }
+    return navigator.mediaDevices.getUserMedia(buildConstraints(settings));
+}
+
+// Torch, zoom and focus are image capture extensions missing from the DOM typings.
+interface MediaSettingsRange {
+    min?: number;
+    max?: number;
+    step?: number;
+}
+
+type ImageCaptureCapabilities = MediaTrackCapabilities & {
+    torch?: boolean | boolean[];
+    zoom?: MediaSettingsRange;
+    focusMode?: string[];
+    focusDistance?: MediaSettingsRange;
+};
+
+function toRange(capability: MediaSettingsRange | undefined): Range | null {
+    if (!capability || typeof capability.min !== 'number' || typeof capability.max !== 'number' || capability.max <= capability.min) return null;
+    return { min: capability.min, max: capability.max, step: capability.step || (capability.max - capability.min) / 100 };
+}
+
+export function getTrackControls(track: MediaStreamTrack | undefined): TrackControls | null {
+    if (!track || typeof track.getCapabilities !== 'function') return null;
+    const capabilities = track.getCapabilities() as ImageCaptureCapabilities;
+    const controls: TrackControls = {
+        torch: capabilities.torch === true || (Array.isArray(capabilities.torch) && capabilities.torch.includes(true)),
+        zoom: toRange(capabilities.zoom),
+        focusModes: Array.isArray(capabilities.focusMode) ? capabilities.focusMode : [],
+        focusDistance: toRange(capabilities.focusDistance),
+    };
+    const hasAny = controls.torch || controls.zoom || controls.focusModes.length > 0 || controls.focusDistance;
+    return hasAny ? controls : null;
+}
+
+/** Applies the supported subset of torch/zoom/focus; unsupported values are left alone. */
+export async function applyTrackControls(track: MediaStreamTrack, settings: CameraSettings): Promise<void> {
+    const controls = getTrackControls(track);
+    if (!controls) return;
+    const advanced: Record<string, unknown>[] = [];
+    if (controls.torch) advanced.push({ torch: settings.torch });
+    if (controls.zoom && settings.zoom !== null) advanced.push({ zoom: settings.zoom });
+    if (settings.focusMode && controls.focusModes.includes(settings.focusMode)) {
+        advanced.push({ focusMode: settings.focusMode });
+        if (settings.focusMode === 'manual' && controls.focusDistance && settings.focusDistance !== null) {
+            advanced.push({ focusDistance: settings.focusDistance });
+        }
+    }
+    if (advanced.length > 0) await track.applyConstraints({ advanced } as MediaTrackConstraints);
+}
+
+export function describeDevice(device: MediaDeviceInfo, index: number, fallback: string): string {
+    // Labels stay empty until the user grants camera access.
+    return device.label || `${fallback} ${index + 1}`;
+}
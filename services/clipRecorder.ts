@@ -0,0 +1,114 @@
+
+import type { ClipSettings } from '../types';
+
+// A WebM file can't be cut at an arbitrary chunk, so instead of one endless
+// recording we keep two recorders running, restarted in turn every
+// 2 × pre-roll seconds and offset by one pre-roll. At any moment one of them
+// started between 1× and 2× the pre-roll ago; on capture that one is kept
+// running through the post-roll and becomes the clip, and its replacement
+// starts half a cycle after the other one, so the offset holds for the next
+// capture.
+
+export interface ClipRecorder {
+    capture: () => Promise<Blob | null>;
+    dispose: () => void;
+}
+
+interface Segment {
+    recorder: MediaRecorder;
+    chunks: Blob[];
+    startedAt: number;
+    restartTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+export const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export function isClipRecordingSupported(mimeTypes = VIDEO_MIME_TYPES): boolean {
+    return typeof MediaRecorder !== 'undefined' && mimeTypes.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+export function clipExtension(mimeType: string): string {
+    if (mimeType.includes('mp4')) return mimeType.startsWith('audio/') ? 'm4a' : 'mp4';
+    return mimeType.includes('ogg') ? 'ogg' : 'webm';
+}
+
+export function createClipRecorder(stream: MediaStream, settings: ClipSettings, mimeTypes = VIDEO_MIME_TYPES): ClipRecorder {
+    const mimeType = mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+    const segmentMs = Math.max(1, settings.preRollSeconds) * 2 * 1000;
+    const segments = new Set<Segment>();
+    let pendingCapture: Promise<Blob | null> | null = null;
+    let staggerTimer: ReturnType<typeof setTimeout> | null = null;
+    const replacementTimers = new Set<ReturnType<typeof setTimeout>>();
+    let isDisposed = false;
+
+    const stopSegment = (segment: Segment) => {
+        if (segment.restartTimer) clearTimeout(segment.restartTimer);
+        segments.delete(segment);
+        if (segment.recorder.state !== 'inactive') segment.recorder.stop();
+    };
+
+    const startSegment = () => {
+        if (isDisposed) return;
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const segment: Segment = { recorder, chunks: [], startedAt: Date.now(), restartTimer: null };
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) segment.chunks.push(e.data);
+        };
+        recorder.start(1000);
+        segment.restartTimer = setTimeout(() => {
+            stopSegment(segment);
+            startSegment();
+        }, segmentMs);
+        segments.add(segment);
+    };
+
+    const scheduleReplacement = () => {
+        const survivor = [...segments][0];
+        let delay = 0;
+        if (survivor) {
+            const age = (Date.now() - survivor.startedAt) % segmentMs;
+            delay = (segmentMs / 2 - age + segmentMs) % segmentMs;
+        }
+        const timer = setTimeout(() => {
+            replacementTimers.delete(timer);
+            startSegment();
+        }, delay);
+        replacementTimers.add(timer);
+    };
+
+    startSegment();
+    staggerTimer = setTimeout(startSegment, segmentMs / 2);
+
+    const capture = (): Promise<Blob | null> => {
+        if (pendingCapture) return pendingCapture;
+        const oldest = [...segments].sort((a, b) => a.startedAt - b.startedAt)[0];
+        if (!oldest) return Promise.resolve(null);
+
+        // Take the segment out of the rotation and keep it running through the post-roll.
+        if (oldest.restartTimer) clearTimeout(oldest.restartTimer);
+        segments.delete(oldest);
+        scheduleReplacement();
+        pendingCapture = new Promise<Blob | null>((resolve) => {
+            oldest.recorder.onstop = () => {
+                resolve(oldest.chunks.length > 0 ? new Blob(oldest.chunks, { type: oldest.recorder.mimeType || mimeType }) : null);
+            };
+            oldest.recorder.onerror = () => resolve(null);
+            setTimeout(() => {
+                pendingCapture = null;
+                if (oldest.recorder.state !== 'inactive') oldest.recorder.stop();
+            }, settings.postRollSeconds * 1000);
+        });
+        return pendingCapture;
+    };
+
+    return {
+        capture,
+        dispose: () => {
+            isDisposed = true;
+            if (staggerTimer) clearTimeout(staggerTimer);
+            replacementTimers.forEach(timer => clearTimeout(timer));
+            [...segments].forEach(stopSegment);
+        },
+    };
+}
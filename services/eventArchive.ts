@@ -0,0 +1,167 @@
+
+import { strFromU8, strToU8, unzip, zip } from 'fflate';
+import type { Unzipped, Zippable } from 'fflate';
+import type { DetectionEvent, EventSource, Recognition } from '../types';
+import { OBJECT_CLASSES, THREAT_LEVELS } from './analysisSchema';
+import { serializeEvent } from './eventSerialization';
+import type { SerializedEvent } from './eventSerialization';
+import { getEventMedia } from './eventStore';
+import type { StoredEventData } from './eventStore';
+import { clipExtension } from './clipRecorder';
+import { buildIncidentReport } from './incidentReport';
+
+const MANIFEST_NAME = 'events.json';
+const REPORT_NAME = 'relatorio.html';
+const ARCHIVE_FORMAT = 'vigilancia-ia/events';
+const ARCHIVE_VERSION = 1;
+
+export interface ArchiveEntry extends SerializedEvent {
+    image: string; // path inside the archive
+    clip?: string;
+    clipMimeType?: string;
+}
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    events: ArchiveEntry[];
+}
+
+export interface ImportedArchive {
+    items: { event: StoredEventData; image: Blob; clip?: Blob }[];
+    skipped: number;
+}
+
+const IMAGE_TYPES: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+// Only used when the manifest doesn't record the clip's type; a WebM audio clip can't be told apart by its name.
+const CLIP_TYPES: Record<string, string> = { mp4: 'video/mp4', m4a: 'audio/mp4', ogg: 'audio/ogg', webm: 'video/webm' };
+
+function imageExtension(mimeType: string): string {
+    return Object.keys(IMAGE_TYPES).find(ext => IMAGE_TYPES[ext] === mimeType) ?? 'jpg';
+}
+
+async function toBytes(blob: Blob): Promise<Uint8Array> {
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Packs the events into a ZIP with their snapshots and clips under media/,
+ * an events.json manifest and a printable report. Media is stored without
+ * compression since JPEG and video are already compressed.
+ */
+export async function exportArchive(events: DetectionEvent[]): Promise<Blob> {
+    const stored = await getEventMedia(events.map(e => e.id));
+    const files: Zippable = {};
+    const entries: ArchiveEntry[] = [];
+
+    for (const event of events) {
+        const media = stored.get(event.id);
+        // Events still being saved aren't in the store yet; their snapshot is already in memory.
+        const image = media?.image ?? await fetch(event.imageDataUrl).then(r => r.blob());
+        const entry: ArchiveEntry = { ...serializeEvent(event), image: `media/${event.id}.${imageExtension(image.type)}` };
+        files[entry.image] = [await toBytes(image), { level: 0 }];
+        if (media?.clip) {
+            entry.clip = `media/${event.id}.${clipExtension(media.clip.type)}`;
+            entry.clipMimeType = media.clip.type;
+            files[entry.clip] = [await toBytes(media.clip), { level: 0 }];
+        }
+        entries.push(entry);
+    }
+
+    const manifest: ArchiveManifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: new Date().toISOString(), events: entries };
+    files[MANIFEST_NAME] = strToU8(JSON.stringify(manifest, null, 2));
+    const paths = new Map(entries.map(entry => [entry.id, entry]));
+    files[REPORT_NAME] = strToU8(buildIncidentReport(events, event => ({ image: paths.get(event.id)!.image, clip: paths.get(event.id)!.clip })));
+
+    const data = await new Promise<Uint8Array>((resolve, reject) => {
+        zip(files, (err, result) => err ? reject(err) : resolve(result));
+    });
+    return new Blob([data], { type: 'application/zip' });
+}
+
+const EVENT_SOURCES: EventSource[] = ['motion', 'audio'];
+const RECOGNITIONS: Recognition[] = ['known', 'unknown'];
+
+// The manifest comes from a file anyone can edit, so every field is checked
+// and coerced to its type; anything that doesn't fit is dropped.
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+function asOneOf<T>(values: T[], value: unknown): T | undefined {
+    return values.includes(value as T) ? value as T : undefined;
+}
+
+function asStrings(value: unknown): string[] | undefined {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+}
+
+function toStoredEvent(entry: ArchiveEntry): StoredEventData {
+    return {
+        id: String(entry.id),
+        timestamp: new Date(entry.timestamp),
+        source: asOneOf(EVENT_SOURCES, entry.source),
+        analysis: asString(entry.analysis) ?? null,
+        threatLevel: asOneOf(THREAT_LEVELS, entry.threatLevel),
+        detectedClasses: Array.isArray(entry.detectedClasses) ? entry.detectedClasses.filter(c => OBJECT_CLASSES.includes(c)) : undefined,
+        objectCount: asNumber(entry.objectCount),
+        confidence: asNumber(entry.confidence),
+        recognition: asOneOf(RECOGNITIONS, entry.recognition),
+        knownSubjects: asStrings(entry.knownSubjects),
+        zoneId: asString(entry.zoneId),
+        zoneName: asString(entry.zoneName),
+        soundLabel: asString(entry.soundLabel),
+        soundLevel: asNumber(entry.soundLevel),
+    };
+}
+
+/** Reads an archive made by exportArchive. Entries with missing media or bad data are skipped. */
+export async function importArchive(file: Blob): Promise<ImportedArchive> {
+    const bytes = await toBytes(file);
+    const files = await new Promise<Unzipped>((resolve, reject) => {
+        unzip(bytes, (err, result) => err ? reject(new Error("O arquivo não é um ZIP válido.")) : resolve(result));
+    });
+    // Accept archives that were re-zipped inside a folder.
+    const manifestPath = Object.keys(files).find(path => path === MANIFEST_NAME || path.endsWith(`/${MANIFEST_NAME}`));
+    if (!manifestPath) throw new Error(`O arquivo não contém ${MANIFEST_NAME}.`);
+    const root = manifestPath.slice(0, -MANIFEST_NAME.length);
+
+    let manifest: ArchiveManifest;
+    try {
+        manifest = JSON.parse(strFromU8(files[manifestPath]));
+    } catch {
+        throw new Error(`${MANIFEST_NAME} está corrompido.`);
+    }
+    if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.events)) {
+        throw new Error("O arquivo não é uma exportação da Vigilância IA.");
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+        throw new Error("O arquivo foi exportado por uma versão mais nova do aplicativo.");
+    }
+
+    const result: ImportedArchive = { items: [], skipped: 0 };
+    for (const entry of manifest.events) {
+        const image = typeof entry?.image === 'string' ? files[root + entry.image] : undefined;
+        if (!entry?.id || !image || typeof entry.timestamp !== 'string' || isNaN(new Date(entry.timestamp).getTime())) {
+            result.skipped++;
+            continue;
+        }
+        const extension = entry.image.split('.').pop()?.toLowerCase() ?? '';
+        const clipPath = asString(entry.clip);
+        const clip = clipPath ? files[root + clipPath] : undefined;
+        const clipFileExtension = clipPath?.split('.').pop()?.toLowerCase() ?? '';
+        result.items.push({
+            event: toStoredEvent(entry),
+            image: new Blob([image], { type: IMAGE_TYPES[extension] ?? 'image/jpeg' }),
+            clip: clip ? new Blob([clip], { type: asString(entry.clipMimeType) || (CLIP_TYPES[clipFileExtension] ?? 'video/webm') }) : undefined,
+        });
+    }
+    return result;
+}
@@ -0,0 +1,34 @@
+
+import type { DetectionEvent, EventFilter } from '../types';
+
+export const EMPTY_FILTER: EventFilter = { from: '', to: '', search: '', classes: [], threatLevels: [] };
+
+export function normalizeText(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** The searchable text of an event: its analysis, what was heard and who was recognized. */
+export function eventText(event: DetectionEvent): string {
+    return normalizeText([event.analysis, event.soundLabel, ...(event.knownSubjects ?? [])].filter(Boolean).join(' '));
+}
+
+export function isFilterActive(filter: EventFilter): boolean {
+    return Boolean(filter.from || filter.to || filter.search.trim() || filter.classes.length || filter.threatLevels.length);
+}
+
+export function filterEvents(events: DetectionEvent[], filter: EventFilter): DetectionEvent[] {
+    // Date inputs give local calendar days; compare against local midnight boundaries.
+    const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+    const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+    const terms = normalizeText(filter.search).split(/\s+/).filter(Boolean);
+
+    return events.filter(event => {
+        const time = event.timestamp.getTime();
+        if (time < from || time > to) return false;
+        if (filter.threatLevels.length > 0 && !(event.threatLevel && filter.threatLevels.includes(event.threatLevel))) return false;
+        if (filter.classes.length > 0 && !event.detectedClasses?.some(c => filter.classes.includes(c))) return false;
+        if (terms.length === 0) return true;
+        const text = eventText(event);
+        return terms.every(term => text.includes(term));
+    });
+}
@@ -0,0 +1,101 @@
+
+import type { DetectionEvent } from '../types';
+import type { AnalysisQueue } from './analysisQueue';
+import { OBJECT_CLASS_LABELS, THREAT_LEVEL_LABELS } from '../components/analysisLabels';
+
+// Questions and daily digests are answered from the stored analyses alone:
+// the event log goes into a text-only prompt, one line per event, and the
+// model answers with the ids of the events it relied on. Requests go through
+// the analysis queue, so they count against the same budgets as the analyses.
+
+export interface EventAnswer {
+    text: string;
+    eventIds: string[]; // only ids present in the log that was sent
+}
+
+const MAX_CONTEXT_EVENTS = 400;
+
+const RESPONSE_FORMAT = 'Responda somente com um objeto JSON no formato {"answer": string (em português), "eventIds": array com os ids dos eventos citados}.';
+
+function formatDateTime(date: Date): string {
+    return date.toLocaleString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function describeEvent(event: DetectionEvent): string {
+    const parts = [`[${event.id}] ${formatDateTime(event.timestamp)}`];
+    if (event.zoneName) parts.push(`zona: ${event.zoneName}`);
+    if (event.source === 'audio') parts.push(`som: ${event.soundLabel ?? 'nível alto'}`);
+    if (event.threatLevel) parts.push(`ameaça: ${THREAT_LEVEL_LABELS[event.threatLevel]}`);
+    if (event.detectedClasses?.length) parts.push(`objetos: ${event.detectedClasses.map(c => OBJECT_CLASS_LABELS[c]).join(', ')}`);
+    if (event.knownSubjects?.length) parts.push(`conhecidos: ${event.knownSubjects.join(', ')}`);
+    if (event.recognition === 'unknown') parts.push('com desconhecidos');
+    parts.push(event.analysis ? `análise: ${event.analysis}` : 'sem análise');
+    return parts.join(' | ');
+}
+
+/** The event log as prompt context, oldest first, capped to the most recent events. */
+function buildEventContext(events: DetectionEvent[]): string {
+    return [...events]
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, MAX_CONTEXT_EVENTS)
+        .reverse()
+        .map(describeEvent)
+        .join('\n');
+}
+
+function parseAnswer(text: string, events: DetectionEvent[]): EventAnswer {
+    try {
+        const raw = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+        const known = new Set(events.map(e => e.id));
+        const ids: unknown[] = Array.isArray(raw.eventIds) ? raw.eventIds : [];
+        return {
+            text: typeof raw.answer === 'string' ? raw.answer : '',
+            eventIds: [...new Set(ids.map(String).filter(id => known.has(id)))],
+        };
+    } catch {
+        // Some local models ignore the JSON instruction; the prose is still useful.
+        return { text: text.trim(), eventIds: [] };
+    }
+}
+
+async function generate(queue: AnalysisQueue, prompt: string): Promise<string> {
+    const { text } = await queue.generateText(prompt, true);
+    return text;
+}
+
+export async function askAboutEvents(queue: AnalysisQueue, events: DetectionEvent[], question: string, now = new Date()): Promise<EventAnswer> {
+    const prompt = [
+        "Você é o assistente de um sistema de câmera de segurança. Abaixo está o registro de eventos detectados, um por linha, com o id entre colchetes.",
+        `Agora é ${formatDateTime(now)}. Use isso para interpretar "hoje", "ontem", "esta semana" etc.`,
+        "Responda à pergunta usando apenas o registro. Se ele não tiver a informação, diga isso. Ao contar ocorrências, considere que um mesmo acontecimento pode gerar vários eventos seguidos.",
+        RESPONSE_FORMAT,
+        '',
+        'Registro de eventos:',
+        buildEventContext(events) || '(nenhum evento)',
+        '',
+        `Pergunta: ${question}`,
+    ].join('\n');
+    return parseAnswer(await generate(queue, prompt), events);
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+    return a.toDateString() === b.toDateString();
+}
+
+/** The "Resumo do dia" digest for the calendar day of `day`. */
+export async function summarizeDay(queue: AnalysisQueue, events: DetectionEvent[], day: Date): Promise<EventAnswer> {
+    const dayEvents = events.filter(e => isSameDay(e.timestamp, day));
+    if (dayEvents.length === 0) {
+        return { text: "Nenhum evento registrado neste dia.", eventIds: [] };
+    }
+    const prompt = [
+        "Você é o assistente de um sistema de câmera de segurança. Abaixo estão os eventos detectados em um dia, um por linha, com o id entre colchetes.",
+        `Escreva um resumo do dia ${day.toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: 'long' })} em poucos parágrafos curtos: o movimento geral ao longo do dia, os acontecimentos que merecem atenção (com horário) e qualquer coisa incomum. Agrupe eventos repetidos do mesmo acontecimento.`,
+        "Em eventIds, liste só os eventos mais relevantes citados no resumo.",
+        RESPONSE_FORMAT,
+        '',
+        'Eventos:',
+        buildEventContext(dayEvents),
+    ].join('\n');
+    return parseAnswer(await generate(queue, prompt), dayEvents);
+}
@@ -0,0 +1,57 @@
+
+import type { DetectionEvent } from '../types';
+
+// The JSON shape of an event shared outside the app (webhooks, remote
+// viewers). Media stays out; callers attach it in whatever form they need.
+export interface SerializedEvent {
+    id: string;
+    timestamp: string; // ISO 8601
+    source?: DetectionEvent['source'];
+    analysis: string | null;
+    threatLevel?: DetectionEvent['threatLevel'];
+    detectedClasses?: DetectionEvent['detectedClasses'];
+    objectCount?: number;
+    confidence?: number;
+    recognition?: DetectionEvent['recognition'];
+    knownSubjects?: string[];
+    zoneId?: string;
+    zoneName?: string;
+    soundLabel?: string;
+    soundLevel?: number;
+}
+
+export function serializeEvent(event: DetectionEvent): SerializedEvent {
+    return {
+        id: event.id,
+        timestamp: event.timestamp.toISOString(),
+        source: event.source,
+        analysis: event.analysis,
+        threatLevel: event.threatLevel,
+        detectedClasses: event.detectedClasses,
+        objectCount: event.objectCount,
+        confidence: event.confidence,
+        recognition: event.recognition,
+        knownSubjects: event.knownSubjects,
+        zoneId: event.zoneId,
+        zoneName: event.zoneName,
+        soundLabel: event.soundLabel,
+        soundLevel: event.soundLevel,
+    };
+}
+
+/** Scales an image down to a small JPEG data URL, for sending over the network. */
+export function createThumbnail(src: string, maxWidth = 320): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(1, maxWidth / image.naturalWidth);
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(image.naturalWidth * scale);
+            canvas.height = Math.round(image.naturalHeight * scale);
+            canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        image.onerror = () => reject(new Error("Não foi possível carregar a imagem."));
+        image.src = src;
+    });
+}
@@ -0,0 +1,224 @@
+
+import type { DetectionEvent, RetentionPolicy } from '../types';
+
+const DB_NAME = 'vigilancia-ia';
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+
+// What actually lives in IndexedDB: the snapshot is kept as a Blob instead of a
+// base64 data URL, and the object URL used for display is recreated on load.
+interface EventRecord extends Omit<DetectionEvent, 'timestamp' | 'imageDataUrl' | 'isAnalyzing' | 'clipUrl' | 'isRecordingClip'> {
+    timestamp: number;
+    image: Blob;
+    clip?: Blob;
+    size: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (!('indexedDB' in window)) {
+                reject(new Error("IndexedDB não é suportado neste navegador."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+                    const store = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+                    store.createIndex('timestamp', 'timestamp');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const [header, base64] = dataUrl.split(',');
+    const mimeType = header.match(/data:(.*?);/)?.[1] ?? 'application/octet-stream';
+    const bytes = atob(base64);
+    const buffer = new Uint8Array(bytes.length);
+    for (let i = 0; i < bytes.length; i++) {
+        buffer[i] = bytes.charCodeAt(i);
+    }
+    return new Blob([buffer], { type: mimeType });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+function toRecord(event: DetectionEvent, image: Blob): EventRecord {
+    const { timestamp, imageDataUrl, isAnalyzing, clipUrl, isRecordingClip, ...rest } = event;
+    return { ...rest, timestamp: timestamp.getTime(), image, size: image.size };
+}
+
+function fromRecord(record: EventRecord): DetectionEvent {
+    const { timestamp, image, clip, size, ...rest } = record;
+    return {
+        ...rest,
+        timestamp: new Date(timestamp),
+        imageDataUrl: URL.createObjectURL(image),
+        clipUrl: clip ? URL.createObjectURL(clip) : undefined,
+        isAnalyzing: false,
+    };
+}
+
+export function revokeEventUrls(event: DetectionEvent): void {
+    URL.revokeObjectURL(event.imageDataUrl);
+    if (event.clipUrl) URL.revokeObjectURL(event.clipUrl);
+}
+
+export async function saveEvent(event: DetectionEvent, image: Blob): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    tx.objectStore(EVENTS_STORE).put(toRecord(event, image));
+    await transactionDone(tx);
+}
+
+export async function updateEvent(id: string, changes: Partial<Omit<DetectionEvent, 'id' | 'timestamp' | 'imageDataUrl' | 'isAnalyzing' | 'clipUrl' | 'isRecordingClip'>>): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    const record = await promisify<EventRecord | undefined>(store.get(id));
+    if (record) {
+        store.put({ ...record, ...changes });
+    }
+    await transactionDone(tx);
+}
+
+export async function attachClip(id: string, clip: Blob): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    const record = await promisify<EventRecord | undefined>(store.get(id));
+    if (record) {
+        store.put({ ...record, clip, clipMimeType: clip.type, size: record.image.size + clip.size });
+    }
+    await transactionDone(tx);
+}
+
+export async function loadEvents(): Promise<DetectionEvent[]> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const records = await promisify<EventRecord[]>(tx.objectStore(EVENTS_STORE).index('timestamp').getAll());
+    return records.reverse().map(fromRecord);
+}
+
+export interface EventMedia {
+    image: Blob;
+    clip?: Blob;
+}
+
+export async function getEventMedia(ids: string[]): Promise<Map<string, EventMedia>> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const store = tx.objectStore(EVENTS_STORE);
+    const records = await Promise.all(ids.map(id => promisify<EventRecord | undefined>(store.get(id))));
+    const media = new Map<string, EventMedia>();
+    records.forEach(record => {
+        if (record) media.set(record.id, { image: record.image, clip: record.clip });
+    });
+    return media;
+}
+
+export type StoredEventData = Omit<DetectionEvent, 'imageDataUrl' | 'isAnalyzing' | 'clipUrl' | 'isRecordingClip'>;
+
+/** Stores events brought in from elsewhere, skipping ids already present. Returns the events added. */
+export async function importEvents(items: { event: StoredEventData; image: Blob; clip?: Blob }[]): Promise<DetectionEvent[]> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    const existing = new Set(await promisify(store.getAllKeys()));
+    const added: EventRecord[] = [];
+    for (const { event, image, clip } of items) {
+        if (existing.has(event.id)) continue;
+        const { timestamp, ...rest } = event;
+        const record: EventRecord = {
+            ...rest,
+            timestamp: timestamp.getTime(),
+            image,
+            clip,
+            clipMimeType: clip ? clip.type : undefined,
+            size: image.size + (clip?.size ?? 0),
+        };
+        store.put(record);
+        existing.add(event.id);
+        added.push(record);
+    }
+    await transactionDone(tx);
+    return added.map(fromRecord);
+}
+
+export async function deleteEvents(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(tx);
+}
+
+/**
+ * Deletes events older than `maxDays` and then the oldest remaining events
+ * until the stored snapshots and clips fit in `maxMegabytes`. Returns the
+ * deleted ids.
+ */
+export async function enforceRetention(policy: RetentionPolicy): Promise<string[]> {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    const removed: string[] = [];
+    const maxAge = policy.maxDays > 0 ? Date.now() - policy.maxDays * 24 * 60 * 60 * 1000 : -Infinity;
+    const maxBytes = policy.maxMegabytes > 0 ? policy.maxMegabytes * 1024 * 1024 : Infinity;
+    let totalBytes = 0;
+
+    // Walk newest to oldest so the size budget is spent on the most recent events.
+    await new Promise<void>((resolve, reject) => {
+        const cursorRequest = store.index('timestamp').openCursor(null, 'prev');
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            const record = cursor.value as EventRecord;
+            totalBytes += record.size;
+            if (record.timestamp < maxAge || totalBytes > maxBytes) {
+                removed.push(record.id);
+                cursor.delete();
+            }
+            cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+
+    await transactionDone(tx);
+    return removed;
+}
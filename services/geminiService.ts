@@ -1,13 +1,59 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import type { AnalyzerResult, AnalyzerUsage, ImageAnalyzer, TextResult } from "./imageAnalyzer";
+import { OBJECT_CLASSES, THREAT_LEVELS, buildAnalysisContent, parseAnalysis } from "./analysisSchema";
+import type { WatchlistEntry } from "../types";
 
-const API_KEY = process.env.API_KEY;
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
 
-if (!API_KEY) {
-  throw new Error("API_KEY do Gemini não foi encontrada. Verifique as variáveis de ambiente.");
+const analysisSchema = {
+    type: Type.OBJECT,
+    properties: {
+        threatLevel: {
+            type: Type.STRING,
+            enum: THREAT_LEVELS,
+            description: "Nível de ameaça à segurança: none (nada relevante), low, medium ou high (ex.: invasão, arrombamento).",
+        },
+        classes: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING, enum: OBJECT_CLASSES },
+            description: "Classes de objetos presentes na imagem.",
+        },
+        objectCount: {
+            type: Type.INTEGER,
+            description: "Quantidade total de pessoas, veículos, animais e pacotes visíveis.",
+        },
+        summary: {
+            type: Type.STRING,
+            description: "Descrição curta em português do que está acontecendo.",
+        },
+        confidence: {
+            type: Type.NUMBER,
+            description: "Confiança na análise, de 0 a 1.",
+        },
+        knownSubjects: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Rótulos das imagens de referência reconhecidas no evento; vazio se não houver referências.",
+        },
+        unknownSubjects: {
+            type: Type.INTEGER,
+            description: "Quantas pessoas, veículos e animais não correspondem a nenhuma referência.",
+        },
+    },
+    required: ['threatLevel', 'classes', 'objectCount', 'summary', 'confidence'],
+    propertyOrdering: ['summary', 'classes', 'objectCount', 'threatLevel', 'confidence', 'knownSubjects', 'unknownSubjects'],
+};
+
+// The recognition fields only mean something when there are references to compare against.
+function schemaFor(watchlist: WatchlistEntry[]) {
+    if (watchlist.length === 0) return analysisSchema;
+    return { ...analysisSchema, required: [...analysisSchema.required, 'knownSubjects', 'unknownSubjects'] };
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export function getDefaultGeminiApiKey(): string {
+    return process.env.API_KEY || '';
+}
 
 function fileToGenerativePart(base64: string, mimeType: string) {
     return {
@@ -18,28 +64,60 @@ function fileToGenerativePart(base64: string, mimeType: string) {
     };
 }
 
-export async function analyzeImage(imageDataUrl: string): Promise<string> {
-    const model = 'gemini-3-flash-preview';
-    const prompt = "Analise esta imagem de uma câmera de segurança. Descreva quaisquer pessoas, animais ou objetos significativos presentes. O que está acontecendo? Seja conciso e direto.";
-
-    try {
-        const imagePart = fileToGenerativePart(imageDataUrl, 'image/jpeg');
-        
-        const response = await ai.models.generateContent({
-            model,
-            contents: { parts: [{ text: prompt }, imagePart] },
-        });
-
-        if (response && response.text) {
-            return response.text;
-        } else {
-            throw new Error("A resposta da API está vazia ou malformada.");
+function toUsage(metadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined): AnalyzerUsage | undefined {
+    return metadata ? { inputTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 } : undefined;
+}
+
+export function createGeminiAnalyzer(apiKey: string, model: string = DEFAULT_GEMINI_MODEL): ImageAnalyzer {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const analyze = async (imageDataUrls: string[], watchlist: WatchlistEntry[] = []): Promise<AnalyzerResult> => {
+        try {
+            const parts = buildAnalysisContent(imageDataUrls, watchlist)
+                .map(content => 'text' in content ? { text: content.text } : fileToGenerativePart(content.imageDataUrl, 'image/jpeg'));
+            
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts },
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: schemaFor(watchlist),
+                },
+            });
+
+            if (response && response.text) {
+                return { analysis: parseAnalysis(response.text, watchlist.map(entry => entry.label)), usage: toUsage(response.usageMetadata) };
+            } else {
+                throw new Error("A resposta da API está vazia ou malformada.");
+            }
+        } catch (error) {
+            console.error("Erro ao chamar a API Gemini:", error);
+            if (error instanceof Error) {
+                throw new Error(`Erro na análise da IA: ${error.message}`);
+            }
+            throw new Error("Erro desconhecido na análise da IA.");
         }
-    } catch (error) {
-        console.error("Erro ao chamar a API Gemini:", error);
-        if (error instanceof Error) {
-            return `Erro na análise da IA: ${error.message}`;
+    };
+
+    const generateText = async (prompt: string, json: boolean): Promise<TextResult> => {
+        try {
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: json ? { responseMimeType: "application/json" } : undefined,
+            });
+            if (!response?.text) {
+                throw new Error("A resposta da API está vazia ou malformada.");
+            }
+            return { text: response.text, usage: toUsage(response.usageMetadata) };
+        } catch (error) {
+            console.error("Erro ao chamar a API Gemini:", error);
+            if (error instanceof Error) {
+                throw new Error(`Erro na consulta à IA: ${error.message}`);
+            }
+            throw new Error("Erro desconhecido na consulta à IA.");
         }
-        return "Erro desconhecido na análise da IA.";
-    }
+    };
+
+    return { name: `Gemini (${model})`, isRemote: true, analyze, generateText };
 }
@@ -0,0 +1,78 @@
+
+import type { AnalyzerSettings, ImageAnalysis, WatchlistEntry } from '../types';
+import { createGeminiAnalyzer, getDefaultGeminiApiKey, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createOpenAiCompatibleAnalyzer } from './openAiCompatibleService';
+import { createLocalDetectorAnalyzer } from './localDetectorService';
+
+export interface AnalyzerUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface AnalyzerResult {
+    analysis: ImageAnalysis;
+    usage?: AnalyzerUsage; // reported by remote providers only
+}
+
+export interface TextResult {
+    text: string;
+    usage?: AnalyzerUsage;
+}
+
+export interface ImageAnalyzer {
+    name: string;
+    isRemote: boolean; // remote analyzers count against the request budgets
+    // Several frames of the same event are analyzed together, in one request where the provider allows.
+    // Watchlist references are compared against the frames by providers that can (not the local detector).
+    analyze: (imageDataUrls: string[], watchlist?: WatchlistEntry[]) => Promise<AnalyzerResult>;
+    // Text-only prompts, used for questions about the event history. Language models only.
+    generateText?: (prompt: string, json: boolean) => Promise<TextResult>;
+}
+
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = {
+    provider: getDefaultGeminiApiKey() ? 'gemini' : 'none',
+    geminiApiKey: '',
+    geminiModel: DEFAULT_GEMINI_MODEL,
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiApiKey: '',
+    openAiModel: 'llava',
+    localMinScore: 0.5,
+};
+
+/** Explains why the selected provider can't run, or returns null when it can. */
+export function getAnalyzerConfigError(settings: AnalyzerSettings): string | null {
+    switch (settings.provider) {
+        case 'none':
+            return "Nenhum provedor de IA selecionado.";
+        case 'gemini':
+            return settings.geminiApiKey || getDefaultGeminiApiKey() ? null : "Informe a chave da API do Gemini.";
+        case 'openai':
+            return settings.openAiBaseUrl && settings.openAiModel ? null : "Informe o endereço e o modelo do servidor.";
+        case 'local':
+            return null;
+    }
+}
+
+let cached: { key: string; analyzer: ImageAnalyzer } | null = null;
+
+/** Returns the analyzer for the current settings, or null when none is usable. */
+export function getImageAnalyzer(settings: AnalyzerSettings): ImageAnalyzer | null {
+    if (getAnalyzerConfigError(settings)) return null;
+    const key = JSON.stringify(settings);
+    if (cached?.key === key) return cached.analyzer;
+
+    let analyzer: ImageAnalyzer;
+    switch (settings.provider) {
+        case 'gemini':
+            analyzer = createGeminiAnalyzer(settings.geminiApiKey || getDefaultGeminiApiKey(), settings.geminiModel || DEFAULT_GEMINI_MODEL);
+            break;
+        case 'openai':
+            analyzer = createOpenAiCompatibleAnalyzer(settings.openAiBaseUrl, settings.openAiModel, settings.openAiApiKey);
+            break;
+        default:
+            analyzer = createLocalDetectorAnalyzer(settings.localMinScore);
+            break;
+    }
+    cached = { key, analyzer };
+    return analyzer;
+}
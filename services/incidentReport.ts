@@ -0,0 +1,122 @@
+
+import type { DetectionEvent, ThreatLevel } from '../types';
+import { THREAT_LEVELS } from './analysisSchema';
+import { THREAT_LEVEL_LABELS, OBJECT_CLASS_LABELS } from '../components/analysisLabels';
+import { blobToDataUrl, getEventMedia } from './eventStore';
+
+const THREAT_COLORS: Record<ThreatLevel, string> = {
+    none: '#16a34a',
+    low: '#ca8a04',
+    medium: '#ea580c',
+    high: '#dc2626',
+};
+
+// Every value goes through here, including ones that look safe: events can come
+// from an imported archive, and the report is written into a same-origin tab.
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+const formatDateTime = (date: Date) => `${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR')}`;
+
+export interface ReportMedia {
+    image: string;
+    clip?: string; // shown as a reference; printed reports can't play video
+}
+
+/**
+ * Renders a self-contained, print-friendly HTML report of the events, oldest
+ * first. `media` supplies the image source and clip reference for each event,
+ * so the same report works inside an archive and as a standalone page.
+ */
+export function buildIncidentReport(events: DetectionEvent[], media: (event: DetectionEvent) => ReportMedia): string {
+    const sorted = [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const first = sorted[0]?.timestamp;
+    const last = sorted[sorted.length - 1]?.timestamp;
+    const threatCounts = THREAT_LEVELS
+        .map(level => ({ level, count: sorted.filter(e => e.threatLevel === level).length }))
+        .filter(({ count }) => count > 0);
+
+    const rows = sorted.map((event, index) => {
+        const { image, clip } = media(event);
+        const details = [
+            event.zoneName && `Zona: ${escapeHtml(event.zoneName)}`,
+            event.source === 'audio' && `Som: ${escapeHtml(event.soundLabel ?? 'nível acima do limite')}${event.soundLevel !== undefined ? ` (${escapeHtml(String(Math.round(event.soundLevel)))} dBFS)` : ''}`,
+            event.detectedClasses?.length && `Objetos: ${escapeHtml(event.detectedClasses.map(c => OBJECT_CLASS_LABELS[c] ?? c).join(', '))}`,
+            event.objectCount !== undefined && `Quantidade: ${escapeHtml(String(event.objectCount))}`,
+            event.confidence !== undefined && `Confiança: ${escapeHtml(String(Math.round(event.confidence * 100)))}%`,
+            event.recognition === 'known' && `Conhecido: ${escapeHtml(event.knownSubjects?.join(', ') ?? '')}`,
+            event.recognition === 'unknown' && `Desconhecido${event.knownSubjects?.length ? ` (também: ${escapeHtml(event.knownSubjects.join(', '))})` : ''}`,
+            clip && `Clipe: ${escapeHtml(clip)}`,
+        ].filter(Boolean);
+        const threat = event.threatLevel
+            ? `<span class="badge" style="background:${escapeHtml(THREAT_COLORS[event.threatLevel] ?? '#6b7280')}">Ameaça: ${escapeHtml(THREAT_LEVEL_LABELS[event.threatLevel] ?? event.threatLevel)}</span>`
+            : '';
+        return `
+        <section class="event">
+            <img src="${escapeHtml(image)}" alt="Evento ${index + 1}">
+            <div>
+                <h2>#${index + 1} · ${escapeHtml(formatDateTime(event.timestamp))} ${threat}</h2>
+                <p>${escapeHtml(event.analysis || 'Evento registrado sem análise por IA.')}</p>
+                ${details.length ? `<p class="details">${details.join(' · ')}</p>` : ''}
+                <p class="details">ID: ${escapeHtml(event.id)}</p>
+            </div>
+        </section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8">
+<title>Relatório de incidentes - Vigilância IA</title>
+<style>
+    body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+    header { border-bottom: 2px solid #111827; margin-bottom: 1.5rem; }
+    h1 { margin: 0 0 0.5rem; }
+    .summary { color: #374151; }
+    .event { display: grid; grid-template-columns: 320px 1fr; gap: 1rem; padding: 1rem 0; border-bottom: 1px solid #d1d5db; break-inside: avoid; }
+    .event img { width: 100%; border-radius: 4px; }
+    .event h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+    .badge { color: #fff; border-radius: 999px; padding: 0.1rem 0.6rem; font-size: 0.75rem; margin-left: 0.5rem; }
+    .details { color: #6b7280; font-size: 0.85rem; }
+    .print { position: fixed; top: 1rem; right: 1rem; padding: 0.5rem 1rem; }
+    @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Imprimir / salvar PDF</button>
+<header>
+    <h1>Relatório de incidentes</h1>
+    <p class="summary">Gerado em ${escapeHtml(formatDateTime(new Date()))} · ${sorted.length} evento${sorted.length === 1 ? '' : 's'}${first ? ` · de ${escapeHtml(formatDateTime(first))} a ${escapeHtml(formatDateTime(last))}` : ''}</p>
+    ${threatCounts.length ? `<p class="summary">${threatCounts.map(({ level, count }) => `${escapeHtml(THREAT_LEVEL_LABELS[level])}: ${count}`).join(' · ')}</p>` : ''}
+</header>
+${rows || '<p>Nenhum evento.</p>'}
+</body>
+</html>`;
+}
+
+/**
+ * Opens the report in a new tab with the snapshots embedded, ready to print
+ * or save as PDF. The tab is opened up front, while the click still counts as
+ * a user gesture, so pop-up blockers let it through.
+ */
+export async function openPrintableReport(events: DetectionEvent[]): Promise<void> {
+    const win = window.open('', '_blank');
+    if (!win) throw new Error("O navegador bloqueou a nova aba do relatório.");
+    win.document.write('<p style="font-family: sans-serif">Gerando relatório...</p>');
+
+    const stored = await getEventMedia(events.map(e => e.id));
+    const images = new Map<string, string>();
+    await Promise.all(events.map(async event => {
+        const image = stored.get(event.id)?.image;
+        images.set(event.id, image ? await blobToDataUrl(image) : event.imageDataUrl);
+    }));
+
+    const html = buildIncidentReport(events, event => ({
+        image: images.get(event.id) ?? event.imageDataUrl,
+        clip: stored.get(event.id)?.clip ? 'disponível no aplicativo e na exportação ZIP' : undefined,
+    }));
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+}
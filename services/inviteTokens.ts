@@ -0,0 +1,54 @@
+
+import type { AccessSettings, InviteLink } from '../types';
+
+// Invite tokens are "<payload>.<signature>", both base64url, where the
+// payload is {"inv": inviteId, "exp": expiresAt} and the signature is an
+// HMAC-SHA256 of it with the camera's secret. Only the camera verifies them,
+// and it also checks that the invite is still listed, i.e. wasn't revoked.
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', fromBase64Url(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export function generateSecret(): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function createInvite(secret: string, label: string, validForHours: number | null, canControl: boolean): Promise<InviteLink> {
+    const id = toBase64Url(crypto.getRandomValues(new Uint8Array(9)));
+    const createdAt = Date.now();
+    const expiresAt = validForHours === null ? null : createdAt + validForHours * 60 * 60 * 1000;
+    const payload = toBase64Url(encoder.encode(JSON.stringify({ inv: id, exp: expiresAt })));
+    const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(payload));
+    return { id, label, token: `${payload}.${toBase64Url(new Uint8Array(signature))}`, createdAt, expiresAt, canControl };
+}
+
+export function isInviteActive(invite: InviteLink, now = Date.now()): boolean {
+    return invite.expiresAt === null || invite.expiresAt > now;
+}
+
+/** Returns the invite the token was issued for, or null if it isn't valid now. */
+export async function verifyInviteToken(settings: AccessSettings, token: string): Promise<InviteLink | null> {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    try {
+        const isValid = await crypto.subtle.verify('HMAC', await importKey(settings.secret), fromBase64Url(signature), encoder.encode(payload));
+        if (!isValid) return null;
+        const { inv } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+        const invite = settings.invites.find(i => i.id === inv);
+        return invite && isInviteActive(invite) ? invite : null;
+    } catch {
+        return null;
+    }
+}
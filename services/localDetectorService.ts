@@ -0,0 +1,101 @@
+
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+import type { ImageAnalysis, ObjectClass, ThreatLevel } from "../types";
+import type { AnalyzerResult, ImageAnalyzer } from "./imageAnalyzer";
+import { THREAT_LEVELS } from "./analysisSchema";
+
+const VEHICLES = ['bicycle', 'car', 'motorcycle', 'bus', 'truck', 'boat', 'airplane', 'train'];
+const ANIMALS = ['bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe'];
+const PACKAGES = ['backpack', 'handbag', 'suitcase'];
+
+const SUMMARY_NOUNS: Record<ObjectClass, [string, string]> = {
+    person: ['pessoa', 'pessoas'],
+    vehicle: ['veículo', 'veículos'],
+    animal: ['animal', 'animais'],
+    package: ['volume', 'volumes'],
+    other: ['outro objeto', 'outros objetos'],
+};
+
+let modelPromise: Promise<ObjectDetection> | null = null;
+
+// TF.js and the COCO-SSD weights are only fetched the first time the local
+// detector is used; after that the browser cache makes it work offline.
+function loadModel(): Promise<ObjectDetection> {
+    if (!modelPromise) {
+        modelPromise = (async () => {
+            const tf = await import("@tensorflow/tfjs-core");
+            await import("@tensorflow/tfjs-backend-cpu");
+            await import("@tensorflow/tfjs-backend-webgl");
+            await tf.ready();
+            const cocoSsd = await import("@tensorflow-models/coco-ssd");
+            return cocoSsd.load({ base: 'lite_mobilenet_v2' });
+        })();
+        modelPromise.catch(() => { modelPromise = null; });
+    }
+    return modelPromise;
+}
+
+function toObjectClass(cocoClass: string): ObjectClass {
+    if (cocoClass === 'person') return 'person';
+    if (VEHICLES.includes(cocoClass)) return 'vehicle';
+    if (ANIMALS.includes(cocoClass)) return 'animal';
+    if (PACKAGES.includes(cocoClass)) return 'package';
+    return 'other';
+}
+
+function loadImage(imageDataUrl: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("Não foi possível carregar a imagem."));
+        image.src = imageDataUrl;
+    });
+}
+
+export function createLocalDetectorAnalyzer(minScore: number): ImageAnalyzer {
+    const analyzeFrame = async (imageDataUrl: string): Promise<ImageAnalysis> => {
+        try {
+            const [model, image] = await Promise.all([loadModel(), loadImage(imageDataUrl)]);
+            const detections = (await model.detect(image, 20, minScore)).map(d => ({ ...d, objectClass: toObjectClass(d.class) }));
+            const relevant = detections.filter(d => d.objectClass !== 'other');
+
+            const counts = new Map<ObjectClass, number>();
+            detections.forEach(d => counts.set(d.objectClass, (counts.get(d.objectClass) ?? 0) + 1));
+            const classes = [...counts.keys()];
+
+            // Without scene understanding the best we can do is: a person is worth a look.
+            const people = counts.get('person') ?? 0;
+            const threatLevel: ThreatLevel = people > 2 ? 'medium' : people > 0 ? 'low' : 'none';
+            const summary = classes.length > 0
+                ? `Detectado: ${classes.map(c => {
+                    const count = counts.get(c) ?? 0;
+                    return `${count} ${SUMMARY_NOUNS[c][count > 1 ? 1 : 0]}`;
+                }).join(', ')}.`
+                : "Nenhum objeto reconhecido.";
+
+            return {
+                threatLevel,
+                classes,
+                objectCount: relevant.length,
+                summary,
+                confidence: detections.length > 0 ? Math.max(...detections.map(d => d.score)) : 0,
+            };
+        } catch (error) {
+            console.error("Erro no detector local:", error);
+            if (error instanceof Error) {
+                throw new Error(`Erro na análise local: ${error.message}`);
+            }
+            throw new Error("Erro desconhecido na análise local.");
+        }
+    };
+
+    // Frames are detected one by one; the event is described by the most serious of them.
+    const analyze = async (imageDataUrls: string[]): Promise<AnalyzerResult> => {
+        const results = await Promise.all(imageDataUrls.map(analyzeFrame));
+        const [analysis] = results.sort((a, b) =>
+            THREAT_LEVELS.indexOf(b.threatLevel) - THREAT_LEVELS.indexOf(a.threatLevel) || b.objectCount - a.objectCount);
+        return { analysis };
+    };
+
+    return { name: 'Detector local (COCO-SSD)', isRemote: false, analyze };
+}
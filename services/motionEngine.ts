@@ -0,0 +1,109 @@
+
+import type { MotionSettings } from '../types';
+import type { ZoneMask } from './motionZones';
+import type { MotionWorkerRequest, MotionWorkerResponse, WorkerZone } from './motionWorker';
+
+export interface MotionHeatmap {
+    cols: number;
+    rows: number;
+    levels: Uint8Array; // 128 means a block sits exactly on its threshold
+}
+
+export interface MotionEngineCallbacks {
+    onMotion: (image: Blob, zone: WorkerZone, areaPercent: number) => void;
+    onHeatmap: (heatmap: MotionHeatmap | null) => void;
+    onError: (message: string) => void;
+}
+
+export interface MotionEngine {
+    configure: (settings: MotionSettings) => void;
+    setZoneMask: (mask: ZoneMask) => void;
+    start: () => void;
+    stop: () => void;
+    dispose: () => void;
+}
+
+export function isMotionEngineSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+}
+
+/**
+ * Samples frames from `video` at the configured rate and hands them to the
+ * detection worker. A frame is skipped while the worker is still busy with
+ * the previous one, so slow devices degrade to a lower effective fps.
+ */
+export function createMotionEngine(video: HTMLVideoElement, width: number, height: number, callbacks: MotionEngineCallbacks): MotionEngine {
+    const worker = new Worker(new URL('./motionWorker.ts', import.meta.url), { type: 'module' });
+    let settings: MotionSettings | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isRunning = false;
+    let isBusy = false;
+
+    const send = (message: MotionWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+    worker.onmessage = (e: MessageEvent<MotionWorkerResponse>) => {
+        const message = e.data;
+        switch (message.type) {
+            case 'processed':
+                isBusy = false;
+                if (isRunning) callbacks.onHeatmap(message.heatmap ?? null);
+                break;
+            case 'motion':
+                if (isRunning) callbacks.onMotion(message.image, message.zone, message.areaPercent);
+                break;
+            case 'error':
+                callbacks.onError(message.message);
+                break;
+        }
+    };
+    worker.onerror = (e) => callbacks.onError(e.message || "Erro no detector de movimento.");
+
+    const scheduleNext = () => {
+        if (!isRunning || !settings) return;
+        timer = setTimeout(captureFrame, 1000 / settings.fps);
+    };
+
+    const captureFrame = async () => {
+        if (!isBusy && video.readyState === video.HAVE_ENOUGH_DATA) {
+            isBusy = true;
+            try {
+                const bitmap = await createImageBitmap(video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'low' });
+                send({ type: 'frame', bitmap }, [bitmap]);
+            } catch (err) {
+                isBusy = false;
+                console.error("Erro ao capturar quadro:", err);
+            }
+        }
+        scheduleNext();
+    };
+
+    return {
+        configure: (newSettings) => {
+            settings = newSettings;
+            send({ type: 'configure', settings: newSettings, width, height });
+        },
+        setZoneMask: (mask) => {
+            // Copy so the caller's mask stays usable after the transfer.
+            const pixelZones = mask.pixelZones.slice();
+            send({ type: 'zones', pixelZones, zones: mask.zones }, [pixelZones.buffer]);
+        },
+        start: () => {
+            if (isRunning) return;
+            isRunning = true;
+            isBusy = false;
+            send({ type: 'reset' });
+            scheduleNext();
+        },
+        stop: () => {
+            isRunning = false;
+            if (timer) clearTimeout(timer);
+            timer = null;
+            callbacks.onHeatmap(null);
+        },
+        dispose: () => {
+            isRunning = false;
+            if (timer) clearTimeout(timer);
+            worker.terminate();
+        },
+    };
+}
@@ -0,0 +1,161 @@
+
+// Runs motion detection off the main thread. Frames arrive as ImageBitmaps,
+// are scaled onto an OffscreenCanvas and compared against a running
+// background model, block by block.
+
+import type { MotionSettings } from '../types';
+
+export interface WorkerZone {
+    id: string;
+    name: string;
+    pixelCount: number;
+}
+
+export type MotionWorkerRequest =
+    | { type: 'configure'; settings: MotionSettings; width: number; height: number }
+    | { type: 'zones'; pixelZones: Int16Array; zones: WorkerZone[] }
+    | { type: 'frame'; bitmap: ImageBitmap }
+    | { type: 'reset' };
+
+export type MotionWorkerResponse =
+    | { type: 'processed'; heatmap?: { cols: number; rows: number; levels: Uint8Array } }
+    | { type: 'motion'; zone: WorkerZone; areaPercent: number; image: Blob }
+    | { type: 'error'; message: string };
+
+const BLOCK_SIZE = 16;
+const BACKGROUND_RATE = 0.05;
+const FOREGROUND_RATE = 0.005; // Moving objects blend into the background slowly
+const NOISE_RATE = 0.05;
+
+let settings: MotionSettings | null = null;
+let width = 0;
+let height = 0;
+let canvas: OffscreenCanvas | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+let pixelZones = new Int16Array(0);
+let zones: WorkerZone[] = [];
+let background: Float32Array | null = null;
+let blockNoise = new Float32Array(0);
+let lastMotionTime = 0;
+
+const post = (message: MotionWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+function reset() {
+    background = null;
+    blockNoise = new Float32Array(Math.ceil(width / BLOCK_SIZE) * Math.ceil(height / BLOCK_SIZE));
+    lastMotionTime = 0;
+}
+
+function configure(newSettings: MotionSettings, newWidth: number, newHeight: number) {
+    settings = newSettings;
+    if (newWidth !== width || newHeight !== height || !canvas) {
+        width = newWidth;
+        height = newHeight;
+        canvas = new OffscreenCanvas(width, height);
+        context = canvas.getContext('2d', { willReadFrequently: true });
+        reset();
+    }
+}
+
+async function processFrame(bitmap: ImageBitmap) {
+    if (!settings || !canvas || !context) {
+        bitmap.close();
+        post({ type: 'processed' });
+        return;
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    const pixels = context.getImageData(0, 0, width, height).data;
+
+    const gray = new Float32Array(width * height);
+    for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+        gray[p] = (pixels[i] * 77 + pixels[i + 1] * 150 + pixels[i + 2] * 29) / 256;
+    }
+    if (!background) {
+        background = gray;
+        post({ type: 'processed' });
+        return;
+    }
+
+    // Sensitivity 100 reacts to a difference of ~4 gray levels, 1 needs ~44.
+    const baseThreshold = 4 + (100 - settings.sensitivity) * 0.4;
+    const cols = Math.ceil(width / BLOCK_SIZE);
+    const rows = Math.ceil(height / BLOCK_SIZE);
+    const levels = new Uint8Array(cols * rows);
+    const changedPixels = new Array<number>(zones.length).fill(0);
+    const blockChanged = new Uint8Array(cols * rows);
+
+    for (let by = 0; by < rows; by++) {
+        for (let bx = 0; bx < cols; bx++) {
+            const block = by * cols + bx;
+            let sum = 0;
+            let count = 0;
+            for (let y = by * BLOCK_SIZE; y < Math.min(height, (by + 1) * BLOCK_SIZE); y++) {
+                for (let x = bx * BLOCK_SIZE; x < Math.min(width, (bx + 1) * BLOCK_SIZE); x++) {
+                    const p = y * width + x;
+                    if (pixelZones[p] < 0) continue;
+                    sum += Math.abs(gray[p] - background[p]);
+                    count++;
+                }
+            }
+            if (count === 0) continue;
+            const mean = sum / count;
+            // Each block learns its own noise floor, so flickering areas need a larger change.
+            const threshold = baseThreshold + 2 * blockNoise[block];
+            levels[block] = Math.min(255, Math.round(mean / threshold * 128));
+            if (mean > threshold) {
+                blockChanged[block] = 1;
+            } else {
+                blockNoise[block] += (mean - blockNoise[block]) * NOISE_RATE;
+            }
+        }
+    }
+
+    for (let p = 0; p < gray.length; p++) {
+        const block = Math.floor(p / width / BLOCK_SIZE) * cols + Math.floor((p % width) / BLOCK_SIZE);
+        const changed = blockChanged[block] === 1;
+        if (changed && pixelZones[p] >= 0) changedPixels[pixelZones[p]]++;
+        background[p] += (gray[p] - background[p]) * (changed ? FOREGROUND_RATE : BACKGROUND_RATE);
+    }
+
+    let triggered = -1;
+    let bestArea = settings.minAreaPercent;
+    for (let z = 0; z < zones.length; z++) {
+        const area = zones[z].pixelCount > 0 ? changedPixels[z] / zones[z].pixelCount * 100 : 0;
+        if (area >= bestArea) {
+            bestArea = area;
+            triggered = z;
+        }
+    }
+
+    post({ type: 'processed', heatmap: settings.showHeatmap ? { cols, rows, levels } : undefined }, settings.showHeatmap ? [levels.buffer] : []);
+
+    const now = Date.now();
+    if (triggered >= 0 && now - lastMotionTime >= settings.cooldownSeconds * 1000) {
+        lastMotionTime = now;
+        const image = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.9 });
+        post({ type: 'motion', zone: zones[triggered], areaPercent: bestArea, image });
+    }
+}
+
+self.onmessage = (e: MessageEvent<MotionWorkerRequest>) => {
+    const message = e.data;
+    switch (message.type) {
+        case 'configure':
+            configure(message.settings, message.width, message.height);
+            break;
+        case 'zones':
+            pixelZones = message.pixelZones;
+            zones = message.zones;
+            break;
+        case 'frame':
+            processFrame(message.bitmap).catch(err => {
+                post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+                post({ type: 'processed' });
+            });
+            break;
+        case 'reset':
+            reset();
+            break;
+    }
+};
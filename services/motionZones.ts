@@ -0,0 +1,70 @@
+
+import type { MotionZone, ZonePoint } from '../types';
+import { loadSetting, saveSetting } from './settings';
+
+export const FULL_FRAME_ZONE_ID = 'full-frame';
+
+// For each pixel of the detection canvas, the index of the include zone it
+// counts toward, or -1 when it is outside every active zone or under a mask.
+export interface ZoneMask {
+    width: number;
+    height: number;
+    pixelZones: Int16Array;
+    zones: { id: string; name: string; pixelCount: number }[];
+}
+
+export function loadZones(cameraId: string): MotionZone[] {
+    return loadSetting<MotionZone[]>(`zones:${cameraId}`, []);
+}
+
+export function saveZones(cameraId: string, zones: MotionZone[]): void {
+    saveSetting(`zones:${cameraId}`, zones);
+}
+
+function isInsidePolygon(x: number, y: number, points: ZonePoint[]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Rasterizes the zones to the detection resolution. When no include zone is
+ * active the whole frame counts as a single zone, still minus any masks.
+ */
+export function buildZoneMask(zones: MotionZone[], width: number, height: number): ZoneMask {
+    const active = zones.filter(zone => zone.enabled && zone.points.length >= 3);
+    const masks = active.filter(zone => zone.kind === 'exclude');
+    let includes = active.filter(zone => zone.kind === 'include');
+    const useFullFrame = includes.length === 0;
+    if (useFullFrame) {
+        includes = [{ id: FULL_FRAME_ZONE_ID, name: 'Quadro inteiro', kind: 'include', enabled: true, points: [] }];
+    }
+
+    const pixelZones = new Int16Array(width * height).fill(-1);
+    const counts = new Array<number>(includes.length).fill(0);
+
+    for (let py = 0; py < height; py++) {
+        const y = (py + 0.5) / height;
+        for (let px = 0; px < width; px++) {
+            const x = (px + 0.5) / width;
+            if (masks.some(mask => isInsidePolygon(x, y, mask.points))) continue;
+            const zoneIndex = useFullFrame ? 0 : includes.findIndex(zone => isInsidePolygon(x, y, zone.points));
+            if (zoneIndex < 0) continue;
+            pixelZones[py * width + px] = zoneIndex;
+            counts[zoneIndex]++;
+        }
+    }
+
+    return {
+        width,
+        height,
+        pixelZones,
+        zones: includes.map((zone, i) => ({ id: zone.id, name: zone.name, pixelCount: counts[i] })),
+    };
+}
@@ -0,0 +1,69 @@
+
+import type { AnalyzerResult, ImageAnalyzer, TextResult } from "./imageAnalyzer";
+import { ANALYSIS_JSON_INSTRUCTIONS, buildAnalysisContent, parseAnalysis } from "./analysisSchema";
+import type { WatchlistEntry } from "../types";
+
+// Works with any server exposing the OpenAI chat completions API with image
+// input, such as Ollama (llava), LM Studio, vLLM or OpenAI itself.
+export function createOpenAiCompatibleAnalyzer(baseUrl: string, model: string, apiKey: string): ImageAnalyzer {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const complete = async (content: unknown, json: boolean): Promise<TextResult> => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                ...(json ? { response_format: { type: 'json_object' } } : {}),
+                messages: [{ role: 'user', content }],
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        const data = await response.json();
+        const text = data?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string' || !text) {
+            throw new Error("A resposta da API está vazia ou malformada.");
+        }
+        const usage = data.usage;
+        return {
+            text,
+            usage: usage ? { inputTokens: Number(usage.prompt_tokens) || 0, outputTokens: Number(usage.completion_tokens) || 0 } : undefined,
+        };
+    };
+
+    const analyze = async (imageDataUrls: string[], watchlist: WatchlistEntry[] = []): Promise<AnalyzerResult> => {
+        try {
+            const content = buildAnalysisContent(imageDataUrls, watchlist)
+                .map(part => 'text' in part ? { type: 'text', text: part.text } : { type: 'image_url', image_url: { url: part.imageDataUrl } });
+            // The first part is always the prompt; the JSON shape goes right after it.
+            content[0] = { type: 'text', text: `${content[0].text}\n\n${ANALYSIS_JSON_INSTRUCTIONS}` };
+            const { text, usage } = await complete(content, true);
+            return { analysis: parseAnalysis(text, watchlist.map(entry => entry.label)), usage };
+        } catch (error) {
+            console.error("Erro ao chamar a API compatível com OpenAI:", error);
+            if (error instanceof Error) {
+                throw new Error(`Erro na análise da IA: ${error.message}`);
+            }
+            throw new Error("Erro desconhecido na análise da IA.");
+        }
+    };
+
+    const generateText = async (prompt: string, json: boolean): Promise<TextResult> => {
+        try {
+            return await complete(prompt, json);
+        } catch (error) {
+            console.error("Erro ao chamar a API compatível com OpenAI:", error);
+            if (error instanceof Error) {
+                throw new Error(`Erro na consulta à IA: ${error.message}`);
+            }
+            throw new Error("Erro desconhecido na consulta à IA.");
+        }
+    };
+
+    return { name: `${model} (${baseUrl})`, isRemote: true, analyze, generateText };
+}
@@ -0,0 +1,192 @@
+
+// Outgoing requests (webhooks and the events they carry) that couldn't be sent
+// are kept in IndexedDB and delivered later: by the service worker through
+// Background Sync where the browser supports it, otherwise by the page, as
+// soon as the connection returns and on a timer with backoff. The service worker reads the same database, so
+// the names and the record shape must match sw.js.
+import { createBackoff } from './reconnect';
+
+const DB_NAME = 'vigilancia-ia-outbox';
+const DB_VERSION = 1;
+const STORE = 'requests';
+const SYNC_TAG = 'outbox';
+const MAX_AGE_MS = 24 * 60 * 60 * 1000; // an alert that old isn't worth sending anymore
+const RETRY_INITIAL_MS = 15 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+interface OutboxEntry {
+    id?: number;
+    url: string;
+    body: string; // JSON, posted as is
+    description: string; // for the logs, e.g. the rule name
+    createdAt: number;
+}
+
+export type DeliveryResult = 'sent' | 'queued';
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<number> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const retryBackoff = createBackoff(RETRY_INITIAL_MS, RETRY_MAX_MS);
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (!('indexedDB' in window)) {
+                reject(new Error("IndexedDB não é suportado neste navegador."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE)) {
+                    request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function getSyncRegistration(): Promise<SyncRegistration | undefined> {
+    if (!('serviceWorker' in navigator)) return undefined;
+    const registration: SyncRegistration | undefined = await navigator.serviceWorker.getRegistration();
+    return registration?.sync && registration.active ? registration : undefined;
+}
+
+/** Asks the service worker to deliver the outbox; false when Background Sync isn't available. */
+async function requestSync(): Promise<boolean> {
+    try {
+        const registration = await getSyncRegistration();
+        if (!registration) return false;
+        await registration.sync!.register(SYNC_TAG);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function post(url: string, body: string): Promise<Response> {
+    return fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+}
+
+// A 4xx won't get better by trying again; anything else might.
+function isRetryable(response: Response): boolean {
+    return response.status < 400 || response.status >= 500;
+}
+
+// Without Background Sync the page retries on its own until the outbox is empty.
+function scheduleFlush(): void {
+    if (retryTimer) return;
+    retryTimer = setTimeout(async () => {
+        retryTimer = null;
+        try {
+            const remaining = await flushOutbox();
+            if (remaining > 0) {
+                scheduleFlush();
+            } else {
+                retryBackoff.reset();
+            }
+        } catch (err) {
+            console.error("Erro ao enviar a fila de saída:", err);
+            scheduleFlush();
+        }
+    }, retryBackoff.next());
+}
+
+async function enqueue(entry: OutboxEntry): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).add(entry));
+    if (!await requestSync()) scheduleFlush();
+}
+
+/**
+ * Posts `body` to `url`, or queues it when the browser is offline or the
+ * server answers with an error (5xx). Throws when the request can't be queued,
+ * when the server rejects it (4xx) and when it fails while online.
+ */
+export async function deliver(url: string, body: string, description: string): Promise<DeliveryResult> {
+    const entry: OutboxEntry = { url, body, description, createdAt: Date.now() };
+    if (navigator.onLine) {
+        try {
+            const response = await post(url, body);
+            if (response.ok) return 'sent';
+            if (!isRetryable(response)) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        } catch (error) {
+            // A blocked CORS request, mixed content or a bad URL is a TypeError
+            // too; only a connection that dropped is worth waiting for.
+            if (!(error instanceof TypeError) || navigator.onLine) throw error;
+        }
+    }
+    await enqueue(entry);
+    return 'queued';
+}
+
+/**
+ * Delivers the queued requests from the page; used where Background Sync isn't
+ * supported. Resolves with the number of requests still queued.
+ */
+export function flushOutbox(): Promise<number> {
+    flushPromise ??= (async () => {
+        const db = await openDb();
+        const entries = await promisify(db.transaction(STORE).objectStore(STORE).getAll()) as OutboxEntry[];
+        let remaining = 0;
+        for (const entry of entries) {
+            if (!navigator.onLine) {
+                remaining++;
+                continue;
+            }
+            if (Date.now() - entry.createdAt > MAX_AGE_MS) {
+                await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(entry.id!));
+                continue;
+            }
+            try {
+                const response = await post(entry.url, entry.body);
+                if (!response.ok) console.error(`Envio pendente "${entry.description}" falhou: HTTP ${response.status}`);
+                if (!isRetryable(response) || response.ok) {
+                    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(entry.id!));
+                } else {
+                    remaining++;
+                }
+            } catch (err) {
+                console.error(`Envio pendente "${entry.description}" falhou:`, err);
+                remaining++;
+            }
+        }
+        return remaining;
+    })().finally(() => { flushPromise = null; });
+    return flushPromise;
+}
+
+/** Delivers what was left queued now and whenever the connection returns. */
+export function watchOutbox(): () => void {
+    const handleOnline = async () => {
+        if (await requestSync()) return;
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+        retryBackoff.reset();
+        try {
+            if (await flushOutbox() > 0) scheduleFlush();
+        } catch (err) {
+            console.error("Erro ao enviar a fila de saída:", err);
+        }
+    };
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+    };
+}
@@ -0,0 +1,94 @@
+
+import type Peer from 'peerjs';
+import type { PeerOptions } from 'peerjs';
+import type { IceServerConfig, NetworkSettings } from '../types';
+import { loadSetting } from './settings';
+
+export const DEFAULT_ICE_SERVERS: IceServerConfig[] = [
+    { urls: 'stun:stun.l.google.com:19302' },
+];
+
+export const DEFAULT_NETWORK_SETTINGS: NetworkSettings = {
+    host: '',
+    port: 9000,
+    path: '/',
+    key: 'peerjs',
+    secure: false,
+    iceServers: DEFAULT_ICE_SERVERS,
+    cameraPeerId: '',
+};
+
+// Same rule the PeerJS broker applies to IDs.
+const PEER_ID_PATTERN = /^[A-Za-z0-9]+(?:[ _-][A-Za-z0-9]+)*$/;
+
+export function loadNetworkSettings(): NetworkSettings {
+    return loadSetting('network', DEFAULT_NETWORK_SETTINGS);
+}
+
+export function getPeerIdError(id: string): string | null {
+    if (!id) return null;
+    if (id.length > 64) return "O ID da câmera deve ter no máximo 64 caracteres.";
+    if (!PEER_ID_PATTERN.test(id)) return "Use apenas letras, números, hífen ou sublinhado no ID da câmera.";
+    return null;
+}
+
+export function getIceServerError(server: IceServerConfig): string | null {
+    if (!/^(stun|stuns|turn|turns):/.test(server.urls)) return `Endereço ICE inválido: "${server.urls}". Use stun: ou turn:.`;
+    if (/^turns?:/.test(server.urls) && (!server.username || !server.credential)) return `O servidor TURN "${server.urls}" precisa de usuário e senha.`;
+    return null;
+}
+
+function buildPeerOptions(settings: NetworkSettings): PeerOptions {
+    const options: PeerOptions = {
+        config: { iceServers: settings.iceServers.map(({ urls, username, credential }) => ({ urls, username, credential })) },
+    };
+    if (settings.host) {
+        options.host = settings.host;
+        options.port = settings.port;
+        options.path = settings.path || '/';
+        options.key = settings.key || 'peerjs';
+        options.secure = settings.secure;
+    }
+    return options;
+}
+
+// Cameras pass their chosen ID; viewers and the dashboard always get a random one.
+export async function createPeer(settings: NetworkSettings, id?: string): Promise<Peer> {
+    const { default: Peer } = await import('peerjs');
+    const options = buildPeerOptions(settings);
+    return id ? new Peer(id, options) : new Peer(options);
+}
+
+// Viewers on other devices need the same broker and relays as the camera,
+// so share links carry them whenever they differ from the defaults. That
+// includes the TURN username and password, in plain text in the URL.
+type SharedNetwork = Omit<NetworkSettings, 'cameraPeerId'>;
+
+function toSharedNetwork({ cameraPeerId, ...shared }: NetworkSettings): SharedNetwork {
+    return shared;
+}
+
+export function encodeNetworkParam(settings: NetworkSettings): string | null {
+    const shared = toSharedNetwork(settings);
+    if (JSON.stringify(shared) === JSON.stringify(toSharedNetwork(DEFAULT_NETWORK_SETTINGS))) return null;
+    return JSON.stringify(shared);
+}
+
+export function decodeNetworkParam(param: string | null): NetworkSettings | null {
+    if (!param) return null;
+    try {
+        const shared = JSON.parse(param) as Partial<SharedNetwork>;
+        return { ...DEFAULT_NETWORK_SETTINGS, ...shared, cameraPeerId: '' };
+    } catch {
+        console.error("Configuração de rede inválida no link.");
+        return null;
+    }
+}
+
+export function buildViewerLink(peerId: string, settings: NetworkSettings, token?: string): string {
+    const params = new URLSearchParams({ view: peerId });
+    if (token) params.set('token', token);
+    const network = encodeNetworkParam(settings);
+    if (network) params.set('net', network);
+    return `${window.location.origin}${window.location.pathname}?${params}`;
+}
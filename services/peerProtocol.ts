@@ -0,0 +1,92 @@
+
+import type Peer from 'peerjs';
+import type { DataConnection } from 'peerjs';
+import type { SerializedEvent } from './eventSerialization';
+
+// Messages exchanged over the PeerJS data connection that a viewer opens
+// before calling the camera. The camera only answers calls from peers that
+// completed the auth handshake; after it, the same connection carries the
+// remote controls and the live event feed.
+
+export interface ViewerCredentials {
+    token?: string;
+    passphrase?: string;
+}
+
+export interface RemoteEvent extends SerializedEvent {
+    isAnalyzing?: boolean;
+    thumbnail?: string; // small JPEG data URL
+}
+
+export interface CameraState {
+    isMonitoring: boolean;
+    status: string;
+    hasStream: boolean; // false while disarmed: there is nothing to call
+}
+
+export type ViewerMessage =
+    | { type: 'auth'; token?: string; passphrase?: string }
+    | { type: 'arm' }
+    | { type: 'disarm' }
+    | { type: 'snapshot-request' }
+    | { type: 'switch-camera' };
+
+export type CameraMessage =
+    | { type: 'auth-ok' }
+    | { type: 'auth-failed'; reason: string }
+    | { type: 'kicked' }
+    | { type: 'state'; state: CameraState }
+    | { type: 'events'; events: RemoteEvent[] } // recent history, sent after auth
+    | { type: 'event'; event: RemoteEvent } // new or updated event
+    | { type: 'snapshot'; image: string; timestamp: string }
+    | { type: 'error'; message: string };
+
+export function sendMessage(conn: DataConnection, message: ViewerMessage | CameraMessage): void {
+    conn.send(message);
+}
+
+export class AccessDeniedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AccessDeniedError';
+    }
+}
+
+const HANDSHAKE_TIMEOUT_MS = 15000;
+
+/**
+ * Opens a data connection to the camera and authenticates with the given
+ * credentials. Resolves with the open connection, which must stay open for as
+ * long as the viewer watches: the camera drops the stream when it closes.
+ */
+export function authenticate(peer: Peer, cameraPeerId: string, credentials: ViewerCredentials): Promise<DataConnection> {
+    return new Promise((resolve, reject) => {
+        const conn = peer.connect(cameraPeerId, { reliable: true });
+        let settled = false;
+        const fail = (error: Error) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            conn.close();
+            reject(error);
+        };
+        const timer = setTimeout(() => fail(new Error("A câmera não respondeu.")), HANDSHAKE_TIMEOUT_MS);
+
+        conn.on('open', () => {
+            sendMessage(conn, { type: 'auth', ...credentials });
+        });
+        conn.on('data', (data) => {
+            const message = data as CameraMessage;
+            if (settled) return;
+            if (message.type === 'auth-ok') {
+                settled = true;
+                clearTimeout(timer);
+                resolve(conn);
+            } else if (message.type === 'auth-failed') {
+                fail(new AccessDeniedError(message.reason));
+            }
+        });
+        conn.on('error', (err) => fail(err));
+        conn.on('close', () => fail(new Error("A conexão com a câmera foi encerrada.")));
+    });
+}
@@ -0,0 +1,63 @@
+
+import type Peer from 'peerjs';
+
+export interface Backoff {
+    next: () => number;
+    reset: () => void;
+}
+
+/** Exponential backoff with ±25% jitter so many viewers don't retry in lockstep. */
+export function createBackoff(initialMs = 1000, maxMs = 30000): Backoff {
+    let attempt = 0;
+    return {
+        next: () => {
+            const delay = Math.min(maxMs, initialMs * 2 ** attempt);
+            attempt++;
+            return Math.round(delay * (0.75 + Math.random() * 0.5));
+        },
+        reset: () => {
+            attempt = 0;
+        },
+    };
+}
+
+// Errors that mean the broker is unreachable rather than something being misconfigured.
+const BROKER_ERRORS = new Set(['network', 'server-error', 'socket-error', 'socket-closed', 'unavailable-id']);
+
+export function isBrokerError(err: { type?: string }): boolean {
+    return BROKER_ERRORS.has(err.type ?? '');
+}
+
+/**
+ * Re-registers `peer` with the broker whenever it drops, backing off between
+ * attempts. Open data and media connections survive this; only new ones need
+ * the broker. Reports the delay until the next attempt, or null once back.
+ * Returns a function that stops watching.
+ */
+export function keepPeerRegistered(peer: Peer, onChange?: (retryInMs: number | null) => void): () => void {
+    const backoff = createBackoff();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleDisconnected = () => {
+        if (peer.destroyed || timer) return;
+        const delay = backoff.next();
+        onChange?.(delay);
+        timer = setTimeout(() => {
+            timer = null;
+            if (!peer.destroyed && peer.disconnected) peer.reconnect();
+        }, delay);
+    };
+
+    const handleOpen = () => {
+        backoff.reset();
+        onChange?.(null);
+    };
+
+    peer.on('disconnected', handleDisconnected);
+    peer.on('open', handleOpen);
+    return () => {
+        if (timer) clearTimeout(timer);
+        peer.off('disconnected', handleDisconnected);
+        peer.off('open', handleOpen);
+    };
+}
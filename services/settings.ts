@@ -0,0 +1,26 @@
+
+const STORAGE_PREFIX = 'vigilancia-ia:';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(STORAGE_PREFIX + key);
+        if (raw === null) return fallback;
+        const parsed = JSON.parse(raw);
+        // Merge plain objects so settings saved by older versions pick up new fields.
+        if (fallback && typeof fallback === 'object' && !Array.isArray(fallback) && parsed && typeof parsed === 'object') {
+            return { ...fallback, ...parsed };
+        }
+        return parsed as T;
+    } catch (error) {
+        console.error(`Erro ao ler a configuração "${key}":`, error);
+        return fallback;
+    }
+}
+
+export function saveSetting<T>(key: string, value: T): void {
+    try {
+        localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+        console.error(`Erro ao salvar a configuração "${key}":`, error);
+    }
+}
@@ -0,0 +1,120 @@
+
+import type { GraphModel } from "@tensorflow/tfjs-converter";
+import type { SoundCategory } from "../types";
+
+const MODEL_URL = 'https://tfhub.dev/google/tfjs-model/yamnet/tfjs/1';
+const CLASS_MAP_URL = 'https://raw.githubusercontent.com/tensorflow/models/master/research/audioset/yamnet/yamnet_class_map.csv';
+const MODEL_SAMPLE_RATE = 16000;
+
+export const SOUND_CATEGORY_LABELS: Record<SoundCategory, string> = {
+    speech: 'Fala',
+    scream: 'Grito',
+    glass: 'Vidro quebrando',
+    alarm: 'Alarme ou sirene',
+    dog: 'Latido',
+    knock: 'Batida ou porta',
+    gunshot: 'Tiro ou explosão',
+    baby: 'Choro de bebê',
+};
+
+// YAMNet scores the 521 AudioSet classes; these are the ones that matter here.
+const CATEGORY_CLASSES: Record<SoundCategory, string[]> = {
+    speech: ['Speech', 'Conversation', 'Narration, monologue'],
+    scream: ['Shout', 'Yell', 'Screaming', 'Children shouting'],
+    glass: ['Glass', 'Shatter', 'Breaking'],
+    alarm: ['Alarm', 'Siren', 'Civil defense siren', 'Smoke detector, smoke alarm', 'Fire alarm', 'Car alarm', 'Buzzer'],
+    dog: ['Dog', 'Bark', 'Growling'],
+    knock: ['Knock', 'Door', 'Slam', 'Doorbell'],
+    gunshot: ['Gunshot, gunfire', 'Machine gun', 'Explosion'],
+    baby: ['Baby cry, infant cry', 'Crying, sobbing'],
+};
+
+export interface SoundMatch {
+    category: SoundCategory;
+    score: number;
+}
+
+interface Classifier {
+    model: GraphModel;
+    tf: typeof import("@tensorflow/tfjs-core");
+    classIndices: Map<SoundCategory, number[]>;
+}
+
+let classifierPromise: Promise<Classifier> | null = null;
+
+function parseClassMap(csv: string): string[] {
+    // index,mid,display_name — display names with commas are quoted.
+    return csv.trim().split('\n').slice(1).map(line => {
+        const name = line.split(',').slice(2).join(',');
+        return name.replace(/^"|"$/g, '');
+    });
+}
+
+// Like the local object detector, the model is only fetched on first use.
+function loadClassifier(): Promise<Classifier> {
+    if (!classifierPromise) {
+        classifierPromise = (async () => {
+            const tf = await import("@tensorflow/tfjs-core");
+            await import("@tensorflow/tfjs-backend-cpu");
+            await import("@tensorflow/tfjs-backend-webgl");
+            await tf.ready();
+            const { loadGraphModel } = await import("@tensorflow/tfjs-converter");
+            const [model, classNames] = await Promise.all([
+                loadGraphModel(MODEL_URL, { fromTFHub: true }),
+                fetch(CLASS_MAP_URL).then(r => {
+                    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+                    return r.text();
+                }).then(parseClassMap),
+            ]);
+            const classIndices = new Map<SoundCategory, number[]>();
+            (Object.keys(CATEGORY_CLASSES) as SoundCategory[]).forEach(category => {
+                classIndices.set(category, CATEGORY_CLASSES[category].map(name => classNames.indexOf(name)).filter(i => i >= 0));
+            });
+            return { model, tf, classIndices };
+        })();
+        classifierPromise.catch(() => { classifierPromise = null; });
+    }
+    return classifierPromise;
+}
+
+function resample(samples: Float32Array, fromRate: number): Float32Array {
+    if (fromRate === MODEL_SAMPLE_RATE) return samples;
+    const ratio = fromRate / MODEL_SAMPLE_RATE;
+    const output = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, samples.length - 1);
+        output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+    }
+    return output;
+}
+
+/**
+ * Runs YAMNet over a mono clip and returns the best scoring of `categories`,
+ * or null when none reaches `minScore`. Each category scores as its best
+ * AudioSet class, averaged over the clip's frames.
+ */
+export async function classifySound(samples: Float32Array, sampleRate: number, categories: SoundCategory[], minScore: number): Promise<SoundMatch | null> {
+    try {
+        const { model, tf, classIndices } = await loadClassifier();
+        const waveform = tf.tensor1d(resample(samples, sampleRate));
+        const outputs = model.predict(waveform) as import("@tensorflow/tfjs-core").Tensor[];
+        const meanScores = tf.mean(outputs[0], 0);
+        const scores = await meanScores.data();
+        tf.dispose([waveform, meanScores, ...outputs]);
+
+        let best: SoundMatch | null = null;
+        for (const category of categories) {
+            const score = Math.max(0, ...(classIndices.get(category) ?? []).map(i => scores[i]));
+            if (score >= minScore && (!best || score > best.score)) best = { category, score };
+        }
+        return best;
+    } catch (error) {
+        console.error("Error classifying sound:", error);
+        if (error instanceof Error) {
+            throw new Error(`Erro na classificação de som: ${error.message}`);
+        }
+        throw new Error("Ocorreu um erro desconhecido na classificação de som.");
+    }
+}
@@ -0,0 +1,83 @@
+
+export interface StreamStats {
+    bitrateKbps: number | null;
+    fps: number | null;
+    rttMs: number | null;
+    packetLossPercent: number | null;
+    resolution: string | null;
+}
+
+interface Sample {
+    timestamp: number;
+    bytesReceived: number;
+    packetsReceived: number;
+    packetsLost: number;
+    framesDecoded: number;
+}
+
+/**
+ * Polls `getStats()` on the viewer's side of a call and turns the cumulative
+ * inbound video counters into per-interval rates. Returns a function that
+ * stops polling.
+ */
+export function watchStreamStats(pc: RTCPeerConnection, onStats: (stats: StreamStats) => void, intervalMs = 1000): () => void {
+    let previous: Sample | null = null;
+    let isActive = true;
+
+    const poll = async () => {
+        let report: RTCStatsReport;
+        try {
+            report = await pc.getStats();
+        } catch {
+            return;
+        }
+        if (!isActive) return;
+
+        let inbound: RTCInboundRtpStreamStats | null = null;
+        let rttMs: number | null = null;
+        for (const stat of report.values() as Iterable<RTCStats>) {
+            if (stat.type === 'inbound-rtp') {
+                const rtp = stat as RTCInboundRtpStreamStats;
+                if (rtp.kind === 'video') inbound = rtp;
+            } else if (stat.type === 'candidate-pair') {
+                const pair = stat as RTCIceCandidatePairStats;
+                if (pair.nominated && pair.state === 'succeeded' && pair.currentRoundTripTime !== undefined) {
+                    rttMs = Math.round(pair.currentRoundTripTime * 1000);
+                }
+            }
+        }
+        if (!inbound) return;
+
+        const sample: Sample = {
+            timestamp: inbound.timestamp,
+            bytesReceived: inbound.bytesReceived ?? 0,
+            packetsReceived: inbound.packetsReceived ?? 0,
+            packetsLost: inbound.packetsLost ?? 0,
+            framesDecoded: inbound.framesDecoded ?? 0,
+        };
+        const stats: StreamStats = {
+            bitrateKbps: null,
+            fps: inbound.framesPerSecond ?? null,
+            rttMs,
+            packetLossPercent: null,
+            resolution: inbound.frameWidth ? `${inbound.frameWidth}x${inbound.frameHeight}` : null,
+        };
+        if (previous && sample.timestamp > previous.timestamp) {
+            const seconds = (sample.timestamp - previous.timestamp) / 1000;
+            const received = sample.packetsReceived - previous.packetsReceived;
+            const lost = sample.packetsLost - previous.packetsLost;
+            stats.bitrateKbps = Math.round(((sample.bytesReceived - previous.bytesReceived) * 8) / 1000 / seconds);
+            stats.fps ??= Math.round((sample.framesDecoded - previous.framesDecoded) / seconds);
+            stats.packetLossPercent = received + lost > 0 ? Math.max(0, (lost / (received + lost)) * 100) : 0;
+        }
+        previous = sample;
+        onStats(stats);
+    };
+
+    const interval = setInterval(poll, intervalMs);
+    poll();
+    return () => {
+        isActive = false;
+        clearInterval(interval);
+    };
+}
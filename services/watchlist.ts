@@ -0,0 +1,33 @@
+
+import type { ImageAnalysis, Recognition, WatchlistEntry } from '../types';
+import { createThumbnail } from './eventSerialization';
+
+// Reference photos travel with every analysis request, so they're kept small
+// and few: they're stored as data URLs in the settings.
+export const MAX_IMAGES_PER_ENTRY = 3;
+const REFERENCE_WIDTH = 384;
+
+export function createWatchlistEntry(): WatchlistEntry {
+    return { id: Date.now().toString(), label: '', kind: 'person', images: [], enabled: true };
+}
+
+export async function prepareReferenceImage(file: Blob): Promise<string> {
+    const url = URL.createObjectURL(file);
+    try {
+        return await createThumbnail(url, REFERENCE_WIDTH);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/** The entries worth sending: enabled, labelled and with at least one photo. */
+export function getActiveWatchlist(entries: WatchlistEntry[]): WatchlistEntry[] {
+    return entries.filter(entry => entry.enabled && entry.label.trim() && entry.images.length > 0);
+}
+
+/** Unknown as soon as one subject matches no reference; known when all of them did. */
+export function getRecognition(analysis: ImageAnalysis): Recognition | undefined {
+    if (analysis.unknownSubjects === undefined) return undefined;
+    if (analysis.unknownSubjects > 0) return 'unknown';
+    return analysis.knownSubjects?.length ? 'known' : undefined;
+}
@@ -1,36 +1,203 @@
+// The build (see vite.config.ts) prepends the list of hashed output files and a
+// version derived from their contents. In development both are missing: nothing
+// is precached and only the runtime cache is used.
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST || [];
+const CACHE_VERSION = self.__CACHE_VERSION || 'dev';
 
-const CACHE_NAME = 'vigilancia-ia-cache-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  '/index.tsx',
-  '/App.tsx',
-  '/services/geminiService.ts',
-  '/types.ts',
-  '/manifest.json',
-  '/icon-192.svg',
-  '/icon-512.svg'
+const CACHE_PREFIX = 'vigilancia-ia-';
+const PRECACHE_NAME = `${CACHE_PREFIX}precache-${CACHE_VERSION}`;
+const RUNTIME_CACHE_NAME = `${CACHE_PREFIX}runtime`;
+
+// Third-party hosts the app loads scripts and models from; kept so the camera
+// still starts, and the local detector still works, without a connection.
+const RUNTIME_HOSTS = [
+  'cdn.tailwindcss.com',
+  'esm.sh',
+  'storage.googleapis.com',
+  'tfhub.dev',
+  'www.kaggle.com',
+  'raw.githubusercontent.com'
 ];
 
+// Must match services/outbox.ts.
+const OUTBOX_DB_NAME = 'vigilancia-ia-outbox';
+const OUTBOX_STORE = 'requests';
+const SYNC_TAG = 'outbox';
+const OUTBOX_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
 self.addEventListener('install', event => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then(cache => {
-        console.log('Opened cache');
-        return cache.addAll(urlsToCache);
-      })
+    caches.open(PRECACHE_NAME).then(cache => cache.addAll(PRECACHE_MANIFEST))
   );
 });
 
-self.addEventListener('fetch', event => {
-  event.respondWith(
-    caches.match(event.request)
-      .then(response => {
-        if (response) {
+// The new version waits until the page accepts the update (see hooks/useServiceWorker.ts).
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== PRECACHE_NAME && key !== RUNTIME_CACHE_NAME)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function isPrecached(url) {
+  return url.origin === self.location.origin && PRECACHE_MANIFEST.includes(url.pathname);
+}
+
+// Serves the cached copy right away and refreshes it in the background.
+function staleWhileRevalidate(request) {
+  return caches.open(RUNTIME_CACHE_NAME).then(cache =>
+    cache.match(request).then(cached => {
+      const fetched = fetch(request)
+        .then(response => {
+          if (response.ok || response.type === 'opaque') {
+            cache.put(request, response.clone());
+          }
           return response;
-        }
-        return fetch(event.request);
+        });
+      if (cached) {
+        fetched.catch(() => undefined);
+        return cached;
+      }
+      return fetched;
+    })
+  );
+}
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Navigations always try the network first so a new deploy is noticed; the
+  // precached page is the offline fallback. Query strings (?view=, ?dashboard)
+  // all load the same page.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches.match('/index.html').then(response => response || Response.error())
+      )
+    );
+    return;
+  }
+
+  // Output file names carry a content hash, so a cached copy never goes stale.
+  if (isPrecached(url)) {
+    event.respondWith(
+      caches.match(url.pathname).then(response => response || fetch(request))
+    );
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+  // Everything else (AI providers, signaling, webhooks) goes straight to the network.
+});
+
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOutbox() {
+  const request = indexedDB.open(OUTBOX_DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+  };
+  return requestToPromise(request);
+}
+
+// True once the entry is settled: delivered, or rejected by the server (4xx).
+async function sendEntry(entry) {
+  try {
+    const response = await fetch(entry.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: entry.body
+    });
+    if (!response.ok) {
+      console.error(`Envio pendente "${entry.description}" falhou: HTTP ${response.status}`);
+    }
+    return response.ok || (response.status >= 400 && response.status < 500);
+  } catch (err) {
+    console.error(`Envio pendente "${entry.description}" falhou:`, err);
+    return false;
+  }
+}
+
+// Sends every queued request and removes the settled and expired ones; if
+// anything is left the sync fails, so the browser retries it later.
+async function flushOutbox() {
+  const db = await openOutbox();
+  try {
+    const entries = await requestToPromise(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+    let remaining = 0;
+    for (const entry of entries) {
+      const isExpired = Date.now() - entry.createdAt > OUTBOX_MAX_AGE_MS;
+      if (isExpired || await sendEntry(entry)) {
+        await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(entry.id));
+      } else {
+        remaining++;
       }
-    )
+    }
+    if (remaining > 0) {
+      throw new Error(`${remaining} envio(s) pendente(s)`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('sync', event => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flushOutbox());
+  }
+});
+
+// Alerts are shown with registration.showNotification(); a click brings the app back.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then(clientList => {
+        const client = clientList.find(c => 'focus' in c);
+        if (client) {
+          return client.focus();
+        }
+        return self.clients.openWindow('/');
+      })
+  );
+});
+
+// Lets a push service deliver the same alerts while the app is closed.
+// Expects a JSON payload: { "title": string, "body": string }; plain text is
+// shown as the body.
+self.addEventListener('push', event => {
+  let data = {};
+  if (event.data) {
+    try {
+      data = event.data.json() || {};
+    } catch {
+      data = { body: event.data.text() };
+    }
+  }
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Vigilância IA', {
+      body: data.body || 'Novo evento detectado.',
+      icon: '/icon-192.svg'
+    })
   );
 });
@@ -1,8 +1,236 @@
 
+export type ThreatLevel = 'none' | 'low' | 'medium' | 'high';
+
+export type ObjectClass = 'person' | 'vehicle' | 'animal' | 'package' | 'other';
+
+export interface ImageAnalysis {
+  threatLevel: ThreatLevel;
+  classes: ObjectClass[];
+  objectCount: number;
+  summary: string;
+  confidence: number; // 0..1
+  knownSubjects?: string[]; // watchlist labels recognized; only set when references were sent
+  unknownSubjects?: number; // people, vehicles and animals matching no reference
+}
+
+export type Recognition = 'known' | 'unknown';
+
+export interface WatchlistEntry {
+  id: string;
+  label: string; // e.g. "Rex", "Nosso carro"
+  kind: ObjectClass;
+  images: string[]; // downscaled JPEG data URLs
+  enabled: boolean;
+}
+
+export type AnalyzerProvider = 'none' | 'gemini' | 'openai' | 'local';
+
+export interface AnalyzerSettings {
+  provider: AnalyzerProvider;
+  geminiApiKey: string; // empty falls back to the key from the build environment
+  geminiModel: string;
+  openAiBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  openAiApiKey: string;
+  openAiModel: string;
+  localMinScore: number; // 0..1, detections below it are ignored
+}
+
+export interface AnalysisQueueSettings {
+  concurrency: number;
+  maxPerMinute: number; // 0 for no limit
+  maxPerDay: number; // 0 for no limit
+  maxRetries: number;
+  batchFrames: number; // frames sent per event; the extra ones are taken a second apart
+  inputPricePerMillion: number; // US$ per million tokens, only for the cost estimate
+  outputPricePerMillion: number;
+}
+
+export interface AnalysisUsageDay {
+  date: string; // yyyy-mm-dd, local time
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type EventSource = 'motion' | 'audio';
+
 export interface DetectionEvent {
   id: string;
+  source?: EventSource; // absent on events recorded before audio detection existed, which were all motion
   timestamp: Date;
   imageDataUrl: string;
-  analysis: string | null;
+  analysis: string | null; // the analysis summary, kept as text for search
+  analysisError?: string; // why the last analysis failed; the event can be analyzed again
+  threatLevel?: ThreatLevel;
+  detectedClasses?: ObjectClass[];
+  objectCount?: number;
+  confidence?: number;
+  recognition?: Recognition; // unset when no watchlist was compared or nothing relevant was seen
+  knownSubjects?: string[];
   isAnalyzing: boolean;
+  zoneId?: string;
+  zoneName?: string;
+  soundLabel?: string; // what the sound classifier heard, when it ran
+  soundLevel?: number; // dBFS that set off an audio event
+  clipUrl?: string; // audio events get an audio-only clip here
+  clipMimeType?: string;
+  isRecordingClip?: boolean;
+}
+
+export interface MotionSettings {
+  sensitivity: number; // 1..100, higher is more sensitive
+  minAreaPercent: number; // share of a zone that must change to trigger
+  cooldownSeconds: number;
+  fps: number;
+  showHeatmap: boolean;
+}
+
+export type SoundCategory = 'speech' | 'scream' | 'glass' | 'alarm' | 'dog' | 'knock' | 'gunshot' | 'baby';
+
+export interface AudioSettings {
+  enabled: boolean;
+  mode: 'rms' | 'peak';
+  thresholdDb: number; // dBFS, -60..0
+  minDurationMs: number; // how long the level must stay above the threshold
+  cooldownSeconds: number;
+  recordClip: boolean;
+  clipSeconds: number; // recorded after the trigger, on top of a short pre-roll
+  classifierEnabled: boolean;
+  classifierMinScore: number; // 0..1
+  categories: SoundCategory[]; // with the classifier on, only these sounds trigger
+}
+
+export type ProfileMotionSettings = Pick<MotionSettings, 'sensitivity' | 'minAreaPercent' | 'cooldownSeconds'>;
+
+export interface ArmingProfile {
+  id: string;
+  name: string;
+  armed: boolean; // switching to this profile starts or stops monitoring
+  motion: ProfileMotionSettings;
+  disabledZoneIds: string[]; // zones drawn later are active in every profile
+  disabledRuleIds: string[];
+}
+
+export interface ScheduleEntry {
+  id: string;
+  profileId: string;
+  days: number[]; // 0 = Sunday, as in Date.getDay(); the day the entry starts
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM; may be earlier than startTime to span midnight
+}
+
+export interface ArmingSettings {
+  profiles: ArmingProfile[];
+  schedule: ScheduleEntry[];
+  scheduleEnabled: boolean;
+  defaultProfileId: string; // active when no schedule entry applies
+}
+
+export interface CameraSettings {
+  videoDeviceId: string; // empty picks a camera by facingMode
+  facingMode: 'environment' | 'user';
+  resolution: string; // "1280x720"; empty lets the browser choose
+  frameRate: number; // 0 lets the browser choose
+  audioEnabled: boolean;
+  audioDeviceId: string; // empty uses the default microphone
+  torch: boolean;
+  zoom: number | null; // null keeps the camera's default
+  focusMode: string; // empty keeps the camera's default
+  focusDistance: number | null; // only used with manual focus
+}
+
+export interface ClipSettings {
+  enabled: boolean;
+  preRollSeconds: number;
+  postRollSeconds: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  keywords: string; // comma separated; the rule matches if the analysis mentions any
+  classes: ObjectClass[]; // empty matches any
+  minThreatLevel: ThreatLevel; // 'none' matches any
+  startTime: string; // HH:MM; with endTime empty, the rule applies all day
+  endTime: string; // HH:MM; may be earlier than startTime to span midnight
+  cooldownSeconds: number;
+  ignoreKnown: boolean; // events showing only watchlist subjects don't fire the rule
+  escalateUnknown: boolean; // unknown subjects count one threat level higher
+  notify: boolean;
+  sound: boolean;
+  webhookUrl: string; // empty disables the webhook
+}
+
+export interface SavedCamera {
+  peerId: string;
+  name: string;
+  token?: string;
+  passphrase?: string;
+  network?: NetworkSettings; // from the share link; absent uses this device's settings
+}
+
+export interface InviteLink {
+  id: string;
+  label: string;
+  token: string;
+  createdAt: number;
+  expiresAt: number | null; // null never expires
+  canControl?: boolean; // arm, disarm and switch the camera; otherwise the invite only lets them watch
+}
+
+export interface AccessSettings {
+  passphrase: string; // empty disables passphrase access
+  secret: string; // signs invite tokens; generated once per camera
+  invites: InviteLink[]; // revoking an invite removes it from this list
+}
+
+export interface IceServerConfig {
+  urls: string; // stun:host:port or turn:host:port
+  username?: string;
+  credential?: string;
+}
+
+export interface NetworkSettings {
+  host: string; // empty uses the public PeerJS broker
+  port: number;
+  path: string;
+  key: string;
+  secure: boolean;
+  iceServers: IceServerConfig[];
+  cameraPeerId: string; // empty lets the broker pick a random ID
+}
+
+export interface ConnectedViewer {
+  peerId: string;
+  connectedAt: Date;
+  via: string; // invite label or "Senha"
+  isWatching: boolean;
+}
+
+export interface ZonePoint {
+  x: number; // 0..1, relative to the video frame width
+  y: number; // 0..1, relative to the video frame height
+}
+
+export interface MotionZone {
+  id: string;
+  name: string;
+  kind: 'include' | 'exclude';
+  enabled: boolean;
+  points: ZonePoint[];
+}
+
+export interface RetentionPolicy {
+  maxDays: number; // 0 disables the age limit
+  maxMegabytes: number; // 0 disables the size limit
+}
+
+export interface EventFilter {
+  from: string; // yyyy-mm-dd, empty for no lower bound
+  to: string; // yyyy-mm-dd, empty for no upper bound
+  search: string;
+  classes: ObjectClass[]; // matches events with any of these classes
+  threatLevels: ThreatLevel[];
 }
@@ -1,7 +1,47 @@
+import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with the list of output files to precache and a version hashed
+// from their contents, so each deploy gets a cache of its own and the worker
+// deletes the previous one when it activates. In development sw.js is served
+// as is and caches nothing but third-party scripts and models.
+function serviceWorker(): Plugin {
+    let publicDir = '';
+    return {
+      name: 'vigilancia-ia-service-worker',
+      apply: 'build',
+      enforce: 'post',
+      configResolved(config) {
+        publicDir = config.publicDir;
+      },
+      generateBundle(_options, bundle) {
+        const files = new Map<string, string | Uint8Array>();
+        for (const output of Object.values(bundle)) {
+          if (output.fileName.endsWith('.map')) continue;
+          files.set(`/${output.fileName}`, output.type === 'chunk' ? output.code : output.source);
+        }
+        if (publicDir && fs.existsSync(publicDir)) {
+          for (const entry of fs.readdirSync(publicDir, { withFileTypes: true })) {
+            if (entry.isFile()) files.set(`/${entry.name}`, fs.readFileSync(path.join(publicDir, entry.name)));
+          }
+        }
+        const urls = [...files.keys()].sort();
+        const hash = createHash('sha256');
+        urls.forEach(url => hash.update(url).update(files.get(url)!));
+        const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+        this.emitFile({
+          type: 'asset',
+          fileName: 'sw.js',
+          source: `self.__PRECACHE_MANIFEST = ${JSON.stringify(urls)};\nself.__CACHE_VERSION = '${hash.digest('hex').slice(0, 12)}';\n\n${source}`,
+        });
+      },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +49,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)